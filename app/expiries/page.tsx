@@ -0,0 +1,295 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { CalendarPlus, FilterX, Loader2 } from "lucide-react"
+
+import { AppHeader } from "@/components/app-header"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useExtractionHistory } from "@/hooks/use-extraction-history"
+import { useReminderDays } from "@/hooks/use-reminder-days"
+import { useToast } from "@/hooks/use-toast"
+import { formatDmy } from "@/lib/dates"
+import { saveBlob } from "@/lib/download"
+import { collectDocuments, consolidate } from "@/lib/dossier"
+import { buildIcs, parseReminderDays } from "@/lib/export/ics"
+import {
+  collectExpiries,
+  EXPIRY_BUCKETS,
+  EXPIRY_KIND_LABELS,
+  filterExpiries,
+  type Expiry,
+  type ExpiryBucket,
+  type ExpiryFilters,
+} from "@/lib/expiries"
+import { cn } from "@/lib/utils"
+
+const BUCKET_STYLES: Record<ExpiryBucket, { card: string; text: string }> = {
+  overdue: { card: "border-red-500/40 bg-red-500/10", text: "text-red-400" },
+  "within-30": { card: "border-orange-500/40 bg-orange-500/10", text: "text-orange-400" },
+  "within-90": { card: "border-yellow-500/40 bg-yellow-500/10", text: "text-yellow-400" },
+  later: { card: "border-gray-700 bg-gray-800", text: "text-gray-300" },
+}
+
+// Select items cannot have an empty value, so "no filter" gets a sentinel.
+const ALL = "__all"
+
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b))
+
+const describeDaysLeft = (days: number) => {
+  if (days === 0) return "Today"
+  if (days < 0) return `${-days} day${days === -1 ? "" : "s"} ago`
+  return `In ${days} day${days === 1 ? "" : "s"}`
+}
+
+function FilterSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value: string | undefined
+  options: string[]
+  onChange: (value: string | undefined) => void
+}) {
+  return (
+    <Select value={value ?? ALL} onValueChange={(next) => onChange(next === ALL ? undefined : next)}>
+      <SelectTrigger className="h-9 w-full bg-gray-900 border-gray-700 text-white sm:w-56" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-gray-800 border-gray-700 text-white">
+        <SelectItem value={ALL}>All {label.toLowerCase()}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function ExpiryTable({ expiries }: { expiries: Expiry[] }) {
+  return (
+    <div className="overflow-x-auto rounded-md border border-gray-700">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-gray-700 hover:bg-transparent">
+            <TableHead className="text-gray-400">Expires</TableHead>
+            <TableHead className="text-gray-400">What</TableHead>
+            <TableHead className="text-gray-400">Name</TableHead>
+            <TableHead className="text-gray-400">Passport</TableHead>
+            <TableHead className="text-gray-400">Nationality</TableHead>
+            <TableHead className="text-gray-400">Company</TableHead>
+            <TableHead className="text-gray-400">Source</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {expiries.map((expiry) => (
+            <TableRow key={expiry.id} className="border-gray-700 hover:bg-gray-800/50">
+              <TableCell className="whitespace-nowrap">
+                <div className="font-mono text-white">{formatDmy(expiry.date)}</div>
+                <div className={cn("text-xs", BUCKET_STYLES[expiry.bucket].text)}>
+                  {describeDaysLeft(expiry.daysLeft)}
+                </div>
+              </TableCell>
+              <TableCell className="text-gray-300">{EXPIRY_KIND_LABELS[expiry.kind]}</TableCell>
+              <TableCell className="text-gray-300">{expiry.person.name || "-"}</TableCell>
+              <TableCell className="font-mono text-gray-300">{expiry.person.passports.join(", ") || "-"}</TableCell>
+              <TableCell className="text-gray-300">{expiry.nationality || "-"}</TableCell>
+              <TableCell className="max-w-[14rem] truncate text-gray-300" title={expiry.company}>
+                {expiry.company || "-"}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                <Badge variant="outline" className="border-gray-600 text-gray-300">
+                  {expiry.document.definition.code}
+                </Badge>
+                <span className="ml-2 text-xs text-gray-500" title={expiry.document.item.filename}>
+                  {expiry.document.item.filename}
+                </span>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export default function ExpiriesPage() {
+  const history = useExtractionHistory()
+  const [filters, setFilters] = useState<ExpiryFilters>({})
+  const [bucket, setBucket] = useState<ExpiryBucket | null>(null)
+  const [reminderDays, setReminderDays] = useReminderDays()
+  // Edited as text and only parsed on blur, so typing "9" on the way to "90" is not rejected.
+  const [reminderDraft, setReminderDraft] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const expiries = useMemo(() => collectExpiries(consolidate(collectDocuments(history.sessions))), [history.sessions])
+  const options = useMemo(
+    () => ({
+      documentTypes: distinct(expiries.map((expiry) => expiry.document.definition.code)),
+      companies: distinct(expiries.map((expiry) => expiry.company)),
+      nationalities: distinct(expiries.map((expiry) => expiry.nationality)),
+    }),
+    [expiries]
+  )
+  const filtered = useMemo(() => filterExpiries(expiries, filters), [expiries, filters])
+  const buckets = EXPIRY_BUCKETS.filter(({ bucket: key }) => bucket === null || bucket === key)
+  const shown = filtered.filter((expiry) => bucket === null || expiry.bucket === bucket)
+  const filtering = Object.values(filters).some(Boolean) || bucket !== null
+
+  const commitReminderDraft = () => {
+    if (reminderDraft !== null) setReminderDays(parseReminderDays(reminderDraft))
+    setReminderDraft(null)
+  }
+
+  // Exports what is listed, so the filters also pick what goes into the calendar.
+  const exportCalendar = () => {
+    saveBlob(buildIcs(shown, { reminderDays }), `Permit_Expiries_${new Date().toISOString().split("T")[0]}.ics`)
+    toast({
+      title: "Calendar Exported",
+      description: `${shown.length} expir${shown.length === 1 ? "y" : "ies"}; importing it again updates the same events.`,
+    })
+  }
+
+  const setFilter = (key: keyof ExpiryFilters) => (value: string | undefined) =>
+    setFilters((prev) => ({ ...prev, [key]: value }))
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <AppHeader title="Permit Expiries" subtitle="Passports, stay permits and Notifikasi across all sessions" />
+
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {history.loading ? (
+          <div className="flex items-center justify-center gap-2 py-24 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading history...
+          </div>
+        ) : !history.available ? (
+          <p className="py-24 text-center text-gray-400">
+            Extraction history is unavailable in this browser, so there are no dates to track.
+          </p>
+        ) : expiries.length === 0 ? (
+          <p className="py-24 text-center text-gray-400">
+            No expiry dates yet. They appear here once passports, ITAS, ITK or Notifikasi have been processed.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {EXPIRY_BUCKETS.map(({ bucket: key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setBucket(bucket === key ? null : key)}
+                  aria-pressed={bucket === key}
+                  className={cn(
+                    "rounded-lg border p-4 text-left transition-colors",
+                    BUCKET_STYLES[key].card,
+                    bucket === key && "ring-2 ring-purple-500"
+                  )}
+                >
+                  <p className={cn("text-3xl font-bold", BUCKET_STYLES[key].text)}>
+                    {filtered.filter((expiry) => expiry.bucket === key).length}
+                  </p>
+                  <p className="text-sm text-gray-400">{label}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+              <FilterSelect
+                label="Document types"
+                value={filters.documentType}
+                options={options.documentTypes}
+                onChange={setFilter("documentType")}
+              />
+              <FilterSelect
+                label="Companies"
+                value={filters.company}
+                options={options.companies}
+                onChange={setFilter("company")}
+              />
+              <FilterSelect
+                label="Nationalities"
+                value={filters.nationality}
+                options={options.nationalities}
+                onChange={setFilter("nationality")}
+              />
+              {filtering && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-400 hover:text-white hover:bg-gray-700"
+                  onClick={() => {
+                    setFilters({})
+                    setBucket(null)
+                  }}
+                >
+                  <FilterX className="mr-2 h-4 w-4" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-3 rounded-lg border border-gray-700 bg-gray-800/50 p-4 sm:flex-row sm:items-end">
+              <div className="space-y-1.5 sm:w-64">
+                <Label htmlFor="reminder-days" className="text-gray-300">
+                  Reminders (days before)
+                </Label>
+                <Input
+                  id="reminder-days"
+                  value={reminderDraft ?? reminderDays.join(", ")}
+                  onChange={(e) => setReminderDraft(e.target.value)}
+                  onBlur={commitReminderDraft}
+                  onKeyDown={(e) => e.key === "Enter" && commitReminderDraft()}
+                  placeholder="90, 60, 30"
+                  className="h-9 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+                />
+              </div>
+              <Button
+                onClick={exportCalendar}
+                disabled={shown.length === 0}
+                className="bg-purple-600 hover:bg-purple-700"
+              >
+                <CalendarPlus className="mr-2 h-4 w-4" />
+                Export to calendar (.ics)
+              </Button>
+              <p className="text-xs text-gray-500 sm:flex-1">
+                One all-day event per listed expiry. Events keep their identity across exports, so re-importing
+                updates them instead of adding duplicates.
+              </p>
+            </div>
+
+            {buckets.map(({ bucket: key, label }) => {
+              const rows = filtered.filter((expiry) => expiry.bucket === key)
+              if (rows.length === 0) return null
+              return (
+                <Card key={key} className="bg-gray-800 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className={BUCKET_STYLES[key].text}>{label}</CardTitle>
+                    <CardDescription className="text-gray-400">
+                      {rows.length} expir{rows.length === 1 ? "y" : "ies"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ExpiryTable expiries={rows} />
+                  </CardContent>
+                </Card>
+              )
+            })}
+            {shown.length === 0 && (
+              <p className="py-12 text-center text-gray-500">No expiries match the filters</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
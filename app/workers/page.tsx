@@ -0,0 +1,120 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { AlertTriangle, Loader2, Search, Users } from "lucide-react"
+
+import { AppHeader } from "@/components/app-header"
+import { WorkerDossier } from "@/components/worker-dossier"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useExtractionHistory } from "@/hooks/use-extraction-history"
+import { collectDocuments, consolidate, nameSimilarity, normalizePassport, type PersonProfile } from "@/lib/dossier"
+import { cn } from "@/lib/utils"
+
+// Names match loosely, so a misspelt search still finds the person; passports match on any part.
+const profileMatches = (profile: PersonProfile, query: string) => {
+  const trimmed = query.trim()
+  if (!trimmed) return true
+  const passport = normalizePassport(trimmed)
+  return (
+    profile.name.toLowerCase().includes(trimmed.toLowerCase()) ||
+    (!!passport && profile.passports.some((candidate) => candidate.includes(passport))) ||
+    nameSimilarity(profile.name, trimmed) >= 0.8
+  )
+}
+
+export default function WorkersPage() {
+  const history = useExtractionHistory()
+  const [query, setQuery] = useState("")
+  const debouncedQuery = useDebouncedValue(query, 250)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const profiles = useMemo(() => consolidate(collectDocuments(history.sessions)), [history.sessions])
+  const visible = useMemo(
+    () => profiles.filter((profile) => profileMatches(profile, debouncedQuery)),
+    [profiles, debouncedQuery]
+  )
+  const selected = profiles.find((profile) => profile.id === selectedId) ?? visible[0]
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <AppHeader title="Worker Dossiers" subtitle="Every document of each foreign worker, across all sessions" />
+
+      <div className="max-w-7xl mx-auto px-6 py-6">
+        {history.loading ? (
+          <div className="flex items-center justify-center gap-2 py-24 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading history...
+          </div>
+        ) : !history.available ? (
+          <p className="py-24 text-center text-gray-400">
+            Extraction history is unavailable in this browser, so there is nothing to consolidate.
+          </p>
+        ) : profiles.length === 0 ? (
+          <p className="py-24 text-center text-gray-400">
+            No extracted records yet. Workers appear here once documents have been processed.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[20rem_1fr]">
+            <Card className="bg-gray-800 border-gray-700 lg:sticky lg:top-28 lg:self-start">
+              <CardHeader className="space-y-3">
+                <div>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <Users className="h-5 w-5 text-purple-400" />
+                    Workers
+                  </CardTitle>
+                  <CardDescription className="text-gray-400">
+                    {profiles.length} people in {history.sessions.length} session
+                    {history.sessions.length === 1 ? "" : "s"}
+                  </CardDescription>
+                </div>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+                  <Input
+                    placeholder="Name or passport..."
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    className="pl-9 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="max-h-[60vh] space-y-1 overflow-y-auto">
+                {visible.map((profile) => (
+                  <button
+                    key={profile.id}
+                    type="button"
+                    onClick={() => setSelectedId(profile.id)}
+                    className={cn(
+                      "w-full rounded-lg border px-3 py-2 text-left hover:bg-gray-700/50",
+                      profile === selected ? "border-purple-500 bg-purple-500/10" : "border-transparent"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium text-white">{profile.name || "Unnamed"}</span>
+                      <div className="flex shrink-0 items-center gap-1">
+                        {profile.conflicts.length > 0 && (
+                          <AlertTriangle className="h-3.5 w-3.5 text-yellow-400" aria-label="Conflicting values" />
+                        )}
+                        <Badge variant="outline" className="border-gray-600 text-xs text-gray-400">
+                          {profile.documents.length}
+                        </Badge>
+                      </div>
+                    </div>
+                    <p className="truncate font-mono text-xs text-gray-500">
+                      {profile.passports.join(", ") || "No passport number"}
+                    </p>
+                  </button>
+                ))}
+                {visible.length === 0 && <p className="py-4 text-center text-sm text-gray-500">No matching workers</p>}
+              </CardContent>
+            </Card>
+
+            {selected && <WorkerDossier profile={selected} />}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import type * as React from "react"
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { CalendarClock, FileText, Users } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+
+const NAV_LINKS = [
+  { href: "/", label: "Extractor", icon: FileText },
+  { href: "/workers", label: "Workers", icon: Users },
+  { href: "/expiries", label: "Expiries", icon: CalendarClock },
+] as const
+
+interface AppHeaderProps {
+  title: string
+  subtitle: string
+  /** Shown at the right end, e.g. the API status. */
+  children?: React.ReactNode
+}
+
+/** Header shared by every page, with the navigation between them. */
+export function AppHeader({ title, subtitle, children }: AppHeaderProps) {
+  const pathname = usePathname()
+
+  return (
+    <header className="bg-gradient-to-r from-gray-900 via-purple-900 to-gray-900 border-b border-gray-800 sticky top-0 z-50">
+      <div className="max-w-7xl mx-auto px-6 py-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-purple-400 to-cyan-400 bg-clip-text text-transparent">
+              {title}
+            </h1>
+            <p className="text-sm text-gray-400">{subtitle}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <nav className="flex items-center gap-1 rounded-lg border border-gray-700 bg-gray-900/60 p-1">
+              {NAV_LINKS.map(({ href, label, icon: Icon }) => (
+                <Link
+                  key={href}
+                  href={href}
+                  aria-current={pathname === href ? "page" : undefined}
+                  className={cn(
+                    "flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm",
+                    pathname === href ? "bg-purple-600 text-white" : "text-gray-400 hover:bg-gray-800 hover:text-white"
+                  )}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </Link>
+              ))}
+            </nav>
+            {children}
+          </div>
+        </div>
+      </div>
+    </header>
+  )
+}
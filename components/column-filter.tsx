@@ -0,0 +1,109 @@
+"use client"
+
+import * as React from "react"
+import { Filter } from "lucide-react"
+
+import type { FieldDefinition } from "@/lib/document-types"
+import { filterKindFor, isFilterActive, type ColumnFilter } from "@/lib/table-view"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+interface ColumnFilterPopoverProps {
+  field: FieldDefinition
+  filter?: ColumnFilter
+  /** Distinct values of the column, offered by `values` filters. */
+  values: string[]
+  onChange: (filter: ColumnFilter | undefined) => void
+}
+
+interface ValuesFilterProps {
+  values: string[]
+  selected: string[]
+  onChange: (values: string[]) => void
+}
+
+function ValuesFilter({ values, selected, onChange }: ValuesFilterProps) {
+  if (values.length === 0) return <p className="text-xs text-gray-500">No values in this column</p>
+  return (
+    <div className="max-h-60 space-y-1 overflow-y-auto">
+      {values.map((value) => (
+        <label key={value} className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 text-sm hover:bg-gray-700">
+          <input
+            type="checkbox"
+            checked={selected.includes(value)}
+            onChange={() =>
+              onChange(selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value])
+            }
+            className="rounded border-gray-600 text-purple-600 focus:ring-purple-500 bg-gray-700"
+          />
+          <span className="truncate">{value}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+/** Filter button of a column header; the editor depends on the field's data type. */
+export function ColumnFilterPopover({ field, filter, values, onChange }: ColumnFilterPopoverProps) {
+  const kind = filterKindFor(field)
+  const active = isFilterActive(filter)
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn("rounded p-0.5 hover:bg-gray-700", active ? "text-purple-400" : "text-gray-600 hover:text-gray-300")}
+          aria-label={`Filter ${field.label}`}
+        >
+          <Filter className="h-3 w-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 space-y-3 bg-gray-800 border-gray-700 text-white">
+        <p className="text-xs font-medium text-gray-400">Filter {field.label}</p>
+        {kind === "text" && (
+          <Input
+            autoFocus
+            placeholder="Contains..."
+            value={filter?.kind === "text" ? filter.query : ""}
+            onChange={(e) => onChange({ kind: "text", query: e.target.value })}
+            className="h-8 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+          />
+        )}
+        {kind === "date" && (
+          <div className="grid grid-cols-2 gap-2">
+            {(["from", "to"] as const).map((bound) => (
+              <Input
+                key={bound}
+                placeholder={bound === "from" ? "From dd/mm/yyyy" : "To dd/mm/yyyy"}
+                value={filter?.kind === "date" ? filter[bound] ?? "" : ""}
+                onChange={(e) =>
+                  onChange({ ...(filter?.kind === "date" ? filter : { kind: "date" }), [bound]: e.target.value })
+                }
+                className="h-8 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+              />
+            ))}
+          </div>
+        )}
+        {kind === "values" && (
+          <ValuesFilter
+            values={values}
+            selected={filter?.kind === "values" ? filter.values : []}
+            onChange={(selected) => onChange({ kind: "values", values: selected })}
+          />
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-full text-gray-400 hover:text-white hover:bg-gray-700"
+          disabled={!active}
+          onClick={() => onChange(undefined)}
+        >
+          Clear filter
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
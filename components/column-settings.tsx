@@ -0,0 +1,92 @@
+"use client"
+
+import { ArrowDown, ArrowUp, Columns3, Pin, PinOff } from "lucide-react"
+
+import type { FieldDefinition } from "@/lib/document-types"
+import {
+  moveColumn,
+  resolveColumns,
+  toggleHidden,
+  togglePinned,
+  type ColumnPreferences,
+} from "@/lib/table-view"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+interface ColumnSettingsProps {
+  fields: readonly FieldDefinition[]
+  preferences: ColumnPreferences
+  onChange: (preferences: ColumnPreferences) => void
+  onReset: () => void
+}
+
+/** Show, hide, reorder and pin the columns of one document type's table. */
+export function ColumnSettings({ fields, preferences, onChange, onReset }: ColumnSettingsProps) {
+  // Listed in the order the table shows them, hidden ones included.
+  const ordered = resolveColumns(fields, { ...preferences, hidden: [] })
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700">
+          <Columns3 className="mr-2 h-4 w-4" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-gray-800 border-gray-700 text-white">
+        <div className="max-h-80 space-y-1 overflow-y-auto">
+          {ordered.map(({ field, pinned }, index) => {
+            const hidden = preferences.hidden.includes(field.key)
+            return (
+              <div key={field.key} className="flex items-center gap-2 rounded px-1 py-0.5 hover:bg-gray-700/50">
+                <input
+                  type="checkbox"
+                  checked={!hidden}
+                  onChange={() => onChange(toggleHidden(preferences, field.key))}
+                  aria-label={`Show ${field.label}`}
+                  className="rounded border-gray-600 text-purple-600 focus:ring-purple-500 bg-gray-700"
+                />
+                <span className={cn("flex-1 truncate text-sm", hidden && "text-gray-500")}>{field.label}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(togglePinned(preferences, field.key))}
+                  className={cn("p-0.5", pinned ? "text-purple-400" : "text-gray-500 hover:text-white")}
+                  aria-label={pinned ? `Unpin ${field.label}` : `Pin ${field.label}`}
+                >
+                  {pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                </button>
+                <button
+                  type="button"
+                  disabled={index === 0 || ordered[index - 1].pinned !== pinned}
+                  onClick={() => onChange(moveColumn(fields, preferences, field.key, -1))}
+                  className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                  aria-label={`Move ${field.label} up`}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  disabled={index === ordered.length - 1 || ordered[index + 1].pinned !== pinned}
+                  onClick={() => onChange(moveColumn(fields, preferences, field.key, 1))}
+                  className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                  aria-label={`Move ${field.label} down`}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )
+          })}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-7 w-full text-gray-400 hover:text-white hover:bg-gray-700"
+          onClick={onReset}
+        >
+          Reset columns
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
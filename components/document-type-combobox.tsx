@@ -0,0 +1,101 @@
+"use client"
+
+import * as React from "react"
+import { Check, ChevronsUpDown } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import type { DocumentTypeInfo } from "@/lib/api"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+interface DocumentTypeComboboxProps {
+  id?: string
+  value: string
+  onChange: (code: string) => void
+  documentTypes: DocumentTypeInfo[]
+  loading?: boolean
+  disabled?: boolean
+  /** Shows only the code on the trigger, for use inside list rows. */
+  compact?: boolean
+  className?: string
+}
+
+export function DocumentTypeCombobox({
+  id,
+  value,
+  onChange,
+  documentTypes,
+  loading,
+  disabled,
+  compact,
+  className,
+}: DocumentTypeComboboxProps) {
+  const [open, setOpen] = React.useState(false)
+  const selected = documentTypes.find((type) => type.code === value)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn(
+            "w-full justify-between bg-gray-800 border-gray-700 text-white hover:bg-gray-700 hover:text-white",
+            className
+          )}
+        >
+          <span className="truncate">
+            {selected ? (
+              <>
+                <span className="font-medium">{selected.code}</span>
+                {!compact && <span className="text-gray-400"> — {selected.name}</span>}
+              </>
+            ) : (
+              value || "Select document type..."
+            )}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-[--radix-popover-trigger-width] min-w-[18rem] p-0 bg-gray-800 border-gray-700 text-white"
+      >
+        <Command className="bg-gray-800 text-white">
+          <CommandInput placeholder="Search document types..." className="text-white placeholder:text-gray-500" />
+          <CommandList>
+            <CommandEmpty className="py-6 text-center text-sm text-gray-400">
+              {loading ? "Loading document types..." : "No document type found."}
+            </CommandEmpty>
+            <CommandGroup>
+              {documentTypes.map((type) => (
+                <CommandItem
+                  key={type.code}
+                  value={`${type.code} ${type.name} ${type.description}`}
+                  onSelect={() => {
+                    onChange(type.code)
+                    setOpen(false)
+                  }}
+                  className="text-gray-200 data-[selected=true]:bg-gray-700 data-[selected=true]:text-white"
+                >
+                  <Check className={cn("h-4 w-4", value === type.code ? "opacity-100" : "opacity-0")} />
+                  <div className="flex flex-col">
+                    <span>
+                      <span className="font-medium">{type.code}</span> — {type.name}
+                    </span>
+                    {type.description && <span className="text-xs text-gray-400">{type.description}</span>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
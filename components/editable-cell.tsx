@@ -0,0 +1,207 @@
+"use client"
+
+import * as React from "react"
+import { AlertCircle, AlertTriangle, CalendarDays, Copy, RotateCcw } from "lucide-react"
+
+import { formatDmy, parseDmy } from "@/lib/dates"
+import type { FieldDefinition } from "@/lib/document-types"
+import { cn } from "@/lib/utils"
+import { fieldStatus, type ValidationIssue } from "@/lib/validation"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+// The document type drives which columns exist, so it is not editable in place.
+const READ_ONLY_KEYS = new Set(["Jenis Dokumen"])
+
+interface EditorProps {
+  value: string
+  onCommit: (value: string) => void
+  onClose: () => void
+}
+
+function TextEditor({ value, onCommit, onClose }: EditorProps) {
+  const [draft, setDraft] = React.useState(value)
+  return (
+    <Input
+      autoFocus
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        onCommit(draft.trim())
+        onClose()
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur()
+        if (e.key === "Escape") {
+          setDraft(value)
+          onClose()
+        }
+      }}
+      className="h-7 min-w-[8rem] bg-gray-900 border-purple-500 text-white"
+    />
+  )
+}
+
+function EnumEditor({ value, options, onCommit, onClose }: EditorProps & { options: readonly string[] }) {
+  // Keep an unexpected extracted value selectable so opening the editor does not lose it.
+  const choices = value && !options.includes(value) ? [value, ...options] : options
+  return (
+    <Select
+      defaultOpen
+      value={value || undefined}
+      onValueChange={onCommit}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <SelectTrigger className="h-7 min-w-[7rem] bg-gray-900 border-purple-500 text-white">
+        <SelectValue placeholder="Select..." />
+      </SelectTrigger>
+      <SelectContent className="bg-gray-800 border-gray-700 text-white">
+        {choices.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function DateEditor({ value, onCommit, onClose }: EditorProps) {
+  const [draft, setDraft] = React.useState(value)
+  const selected = parseDmy(value) ?? undefined
+
+  return (
+    <Popover defaultOpen onOpenChange={(open) => !open && onClose()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 bg-gray-900 border-purple-500 text-white">
+          <CalendarDays className="mr-1 h-3 w-3" />
+          {value || "Pick a date"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0 bg-gray-800 border-gray-700 text-white" align="start">
+        <Calendar
+          mode="single"
+          selected={selected}
+          defaultMonth={selected}
+          captionLayout="dropdown-buttons"
+          fromYear={1920}
+          toYear={new Date().getFullYear() + 20}
+          onSelect={(date) => {
+            if (!date) return
+            onCommit(formatDmy(date))
+            onClose()
+          }}
+        />
+        <div className="flex gap-2 border-t border-gray-700 p-2">
+          <Input
+            value={draft}
+            placeholder="dd/mm/yyyy"
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter") return
+              onCommit(draft.trim())
+              onClose()
+            }}
+            className="h-8 bg-gray-900 border-gray-700 text-white"
+          />
+          <Button
+            size="sm"
+            className="h-8 bg-purple-600 hover:bg-purple-700"
+            onClick={() => {
+              onCommit(draft.trim())
+              onClose()
+            }}
+          >
+            Set
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+interface EditableCellProps {
+  field: FieldDefinition
+  value: string
+  /** The extracted value, shown on edited cells so the change can be checked. */
+  original: string
+  edited: boolean
+  /** Validation problems with the current value. */
+  issues?: ValidationIssue[]
+  onChange: (value: string) => void
+  onCopy: (value: string) => void
+}
+
+function IssueIcon({ issues }: { issues: ValidationIssue[] }) {
+  const title = issues.map((issue) => issue.message).join("\n")
+  return (
+    <span title={title} aria-label={title} className="shrink-0">
+      {fieldStatus(issues) === "error" ? (
+        <AlertCircle className="h-3 w-3 text-red-400" />
+      ) : (
+        <AlertTriangle className="h-3 w-3 text-yellow-400" />
+      )}
+    </span>
+  )
+}
+
+/** A results table cell that switches to a type-aware editor on click. */
+export function EditableCell({ field, value, original, edited, issues = [], onChange, onCopy }: EditableCellProps) {
+  const [editing, setEditing] = React.useState(false)
+  const readOnly = READ_ONLY_KEYS.has(field.key)
+  const close = () => setEditing(false)
+
+  if (editing) {
+    if (field.type === "enum" && field.options) {
+      return <EnumEditor value={value} options={field.options} onCommit={onChange} onClose={close} />
+    }
+    if (field.type === "date") return <DateEditor value={value} onCommit={onChange} onClose={close} />
+    return <TextEditor value={value} onCommit={onChange} onClose={close} />
+  }
+
+  return (
+    <div
+      className={cn(
+        "group flex max-w-xs items-center gap-1 rounded px-1 -mx-1",
+        !readOnly && "cursor-text hover:bg-gray-700/50",
+        edited && "bg-amber-500/10 ring-1 ring-amber-500/40",
+        fieldStatus(issues) === "error" && "text-red-300"
+      )}
+      title={edited ? `Edited. Extracted value: ${original || "(empty)"}` : readOnly ? value : `${value ? `${value}\n` : ""}Click to edit`}
+      onClick={() => !readOnly && setEditing(true)}
+    >
+      {edited && <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-amber-400" aria-label="Edited" />}
+      <span className="truncate">{value || "-"}</span>
+      {issues.length > 0 && <IssueIcon issues={issues} />}
+      {value && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            onCopy(value)
+          }}
+          className="opacity-0 group-hover:opacity-100 transition-opacity"
+          aria-label={`Copy ${field.label}`}
+        >
+          <Copy className="h-3 w-3 text-gray-500" />
+        </button>
+      )}
+      {edited && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            onChange(original)
+          }}
+          className="opacity-0 group-hover:opacity-100 transition-opacity"
+          aria-label={`Revert ${field.label} to the extracted value`}
+        >
+          <RotateCcw className="h-3 w-3 text-amber-400" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import * as React from "react"
+import { Clock, Timer } from "lucide-react"
+
+import {
+  countCompleted,
+  estimateRemainingMs,
+  formatDuration,
+  progressFraction,
+  type ExtractionProgress,
+} from "@/lib/progress"
+import type { QueueEntry, QueueEntryStatus } from "@/lib/upload-queue"
+import { Progress } from "@/components/ui/progress"
+
+const STATE_LABELS: { status: QueueEntryStatus; label: string; className: string }[] = [
+  { status: "queued", label: "queued", className: "text-gray-400" },
+  { status: "uploading", label: "uploading", className: "text-yellow-400" },
+  { status: "processing", label: "processing", className: "text-cyan-400" },
+  { status: "extracted", label: "extracted", className: "text-green-400" },
+  { status: "failed", label: "failed", className: "text-red-400" },
+  { status: "cancelled", label: "cancelled", className: "text-orange-400" },
+]
+
+interface ExtractionProgressPanelProps {
+  progress: ExtractionProgress
+  entries: QueueEntry[]
+}
+
+export function ExtractionProgressPanel({ progress, entries }: ExtractionProgressPanelProps) {
+  const active = progress.finishedAt === undefined
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    if (!active) return
+    setNow(Date.now())
+    const id = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(id)
+  }, [active])
+
+  const runIds = new Set(progress.entryIds)
+  const runEntries = entries.filter((entry) => runIds.has(entry.id))
+  const completed = countCompleted(progress, entries)
+  const fraction = progressFraction(progress, completed)
+  const percent = Math.round(fraction * 100)
+  const remaining = estimateRemainingMs(progress, fraction, now)
+  const counts = runEntries.reduce<Partial<Record<QueueEntryStatus, number>>>((acc, entry) => {
+    acc[entry.status] = (acc[entry.status] ?? 0) + 1
+    return acc
+  }, {})
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-700 bg-gray-900/50 p-4" aria-live="polite">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-300">
+          {completed} of {progress.entryIds.length} files done
+        </span>
+        <span className="font-medium text-white">{percent}%</span>
+      </div>
+      <Progress value={percent} className="h-2 bg-gray-700" />
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <div className="flex flex-wrap gap-3">
+          {STATE_LABELS.filter(({ status }) => counts[status]).map(({ status, label, className }) => (
+            <span key={status} className={className}>
+              {counts[status]} {label}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-4 text-gray-400">
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            Elapsed {formatDuration((progress.finishedAt ?? now) - progress.startedAt)}
+          </span>
+          {active && (
+            <span className="flex items-center gap-1">
+              <Timer className="h-3 w-3" />
+              {remaining === null ? "Estimating..." : `About ${formatDuration(remaining)} left`}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import * as React from "react"
+import { Database, Download, FileText, FolderOpen, History, Search, Trash2, Upload } from "lucide-react"
+
+import { sessionMatches, type ExtractionSession, type StorageUsage } from "@/lib/history"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+function StorageIndicator({ storage }: { storage: StorageUsage }) {
+  const percent = storage.quota ? (storage.usage / storage.quota) * 100 : 0
+  return (
+    <div className="w-48 space-y-1 text-right">
+      <p className="flex items-center justify-end gap-1 text-xs text-gray-400">
+        <Database className="h-3 w-3" />
+        {formatMb(storage.usage)} of {formatMb(storage.quota)} used
+      </p>
+      <Progress value={percent} className="h-1.5 bg-gray-700" />
+    </div>
+  )
+}
+
+interface HistoryPanelProps {
+  sessions: ExtractionSession[]
+  storage: StorageUsage | null
+  loading: boolean
+  available: boolean
+  onReopen: (session: ExtractionSession) => void
+  onRestoreFiles: (session: ExtractionSession) => void
+  onExport: (session: ExtractionSession) => void
+  onDelete: (session: ExtractionSession) => void
+}
+
+export function HistoryPanel({
+  sessions,
+  storage,
+  loading,
+  available,
+  onReopen,
+  onRestoreFiles,
+  onExport,
+  onDelete,
+}: HistoryPanelProps) {
+  const [query, setQuery] = React.useState("")
+  const visible = sessions.filter((session) => sessionMatches(session, query))
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <History className="h-5 w-5 text-purple-400" />
+              Extraction History
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Completed extractions are saved in this browser and survive a page reload
+            </CardDescription>
+          </div>
+          {storage && <StorageIndicator storage={storage} />}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!available ? (
+          <p className="text-sm text-gray-400">History is not available in this browser (IndexedDB is disabled).</p>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by file name, document type or extracted value..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-10 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+              />
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-gray-400">Loading history...</p>
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                {sessions.length === 0 ? "No saved extractions yet." : "No sessions match your search."}
+              </p>
+            ) : (
+              <div className="grid gap-2">
+                {visible.map((session) => (
+                  <div
+                    key={session.id}
+                    className="flex items-center justify-between gap-3 p-3 bg-gray-800/50 rounded-lg border border-gray-700"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-gray-200">
+                          {new Date(session.createdAt).toLocaleString()}
+                        </span>
+                        {session.documentTypes.map((code) => (
+                          <Badge key={code} variant="outline" className="text-xs border-purple-500/30 text-purple-300">
+                            {code}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="flex items-center gap-1 text-xs text-gray-400 truncate max-w-xl">
+                        <FileText className="h-3 w-3 shrink-0" />
+                        {session.result.processedFiles}/{session.filenames.length} extracted:{" "}
+                        {session.filenames.slice(0, 3).join(", ")}
+                        {session.filenames.length > 3 && ` and ${session.filenames.length - 3} more`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => onReopen(session)}
+                        className="bg-purple-600 hover:bg-purple-700"
+                      >
+                        <FolderOpen className="mr-1 h-4 w-4" />
+                        Reopen
+                      </Button>
+                      {session.fileCount > 0 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onRestoreFiles(session)}
+                          className="h-8 w-8 text-gray-400 hover:text-white hover:bg-gray-700"
+                          aria-label="Add the original PDFs back to the upload queue"
+                          title="Add the original PDFs back to the upload queue"
+                        >
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onExport(session)}
+                        className="h-8 w-8 text-gray-400 hover:text-white hover:bg-gray-700"
+                        aria-label="Export session as JSON"
+                        title="Export session as JSON"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(session)}
+                        className="h-8 w-8 text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                        aria-label="Delete session"
+                        title="Delete session"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import * as React from "react"
+import { Loader2 } from "lucide-react"
+import type { TextItem } from "pdfjs-dist/types/src/display/api"
+
+import { findTextMatches } from "@/lib/pdf/highlight"
+import { loadPdfjs } from "@/lib/pdf/text"
+
+// Rendered once at this scale; the canvas is then sized with CSS so resizing the panel is free.
+const RENDER_SCALE = 1.5
+
+/** A text item's box, in percent of the page so it follows the canvas' CSS size. */
+interface PositionedText {
+  str: string
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+interface RenderedPage {
+  canvas: HTMLCanvasElement
+  width: number
+  height: number
+  items: PositionedText[]
+}
+
+async function renderPdf(file: Blob, isCancelled: () => boolean): Promise<RenderedPage[]> {
+  const pdfjs = await loadPdfjs()
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise
+
+  try {
+    const pages: RenderedPage[] = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && !isCancelled(); pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const viewport = page.getViewport({ scale: RENDER_SCALE })
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.floor(viewport.width)
+      canvas.height = Math.floor(viewport.height)
+      const context = canvas.getContext("2d")
+      if (!context) throw new Error("Canvas is not available")
+      await page.render({ canvasContext: context, viewport }).promise
+
+      const content = await page.getTextContent()
+      const items = content.items
+        .filter((item): item is TextItem => "str" in item)
+        .map((item) => {
+          const [, , c, d, x, y] = pdfjs.Util.transform(viewport.transform, item.transform)
+          const fontHeight = Math.hypot(c, d)
+          return {
+            str: item.str,
+            left: (x / viewport.width) * 100,
+            top: ((y - fontHeight) / viewport.height) * 100,
+            width: ((item.width * RENDER_SCALE) / viewport.width) * 100,
+            height: (fontHeight / viewport.height) * 100,
+          }
+        })
+      pages.push({ canvas, width: viewport.width, height: viewport.height, items })
+    }
+    return pages
+  } finally {
+    pdf.destroy()
+  }
+}
+
+function PageView({ page, highlight }: { page: RenderedPage; highlight?: string }) {
+  const mountCanvas = React.useCallback(
+    (node: HTMLDivElement | null) => {
+      if (!node) return
+      page.canvas.className = "block h-auto w-full"
+      node.replaceChildren(page.canvas)
+    },
+    [page.canvas]
+  )
+  const matches = React.useMemo(
+    () => (highlight ? findTextMatches(page.items, highlight) : []),
+    [page.items, highlight]
+  )
+
+  return (
+    <div className="relative bg-white shadow-lg" style={{ aspectRatio: `${page.width} / ${page.height}` }}>
+      <div ref={mountCanvas} />
+      {matches.map((index) => {
+        const item = page.items[index]
+        return (
+          <div
+            key={index}
+            data-highlight
+            className="absolute rounded-sm bg-yellow-400/40 ring-2 ring-yellow-500"
+            style={{ left: `${item.left}%`, top: `${item.top}%`, width: `${item.width}%`, height: `${item.height}%` }}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
+interface PdfViewerProps {
+  file: Blob
+  /** Text to mark on the pages; the first occurrence is scrolled into view. */
+  highlight?: string
+  /** Called with the number of highlighted text items after each change of `highlight`. */
+  onHighlightCount?: (count: number) => void
+}
+
+/** Renders every page of a PDF with the text matching `highlight` marked. */
+export function PdfViewer({ file, highlight, onHighlightCount }: PdfViewerProps) {
+  const [pages, setPages] = React.useState<RenderedPage[] | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const containerRef = React.useRef<HTMLDivElement>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    setPages(null)
+    setError(null)
+    renderPdf(file, () => cancelled)
+      .then((rendered) => !cancelled && setPages(rendered))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : String(err)))
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  React.useEffect(() => {
+    if (!pages) return
+    const first = containerRef.current?.querySelector("[data-highlight]")
+    first?.scrollIntoView({ block: "center", behavior: "smooth" })
+    onHighlightCount?.(containerRef.current?.querySelectorAll("[data-highlight]").length ?? 0)
+  }, [pages, highlight, onHighlightCount])
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-400">Could not render PDF: {error}</p>
+  }
+
+  if (!pages) {
+    return (
+      <div className="flex h-full items-center justify-center gap-2 text-sm text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Rendering PDF...
+      </div>
+    )
+  }
+
+  return (
+    <div ref={containerRef} className="h-full space-y-4 overflow-y-auto bg-gray-900 p-4">
+      {pages.map((page, index) => (
+        <PageView key={index} page={page} highlight={highlight} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import * as React from "react"
+import { ChevronLeft, ChevronRight, FileWarning, Loader2, Search } from "lucide-react"
+
+import type { ResultItem, ReviewStatus } from "@/lib/api"
+import { getFieldValue, type DocumentTypeDefinition } from "@/lib/document-types"
+import { getItemValue, isEdited } from "@/lib/results"
+import { cn } from "@/lib/utils"
+import { validateRecord } from "@/lib/validation"
+import { EditableCell } from "@/components/editable-cell"
+import { PdfViewer } from "@/components/pdf-viewer"
+import { REVIEW_SHORTCUTS, ReviewBar } from "@/components/review-status"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
+
+interface RecordPreviewProps {
+  item: ResultItem
+  definition: DocumentTypeDefinition
+  /** Position of `item` among the records that can be stepped through. */
+  position: { index: number; count: number }
+  /** Finds the original PDF of a record; resolves to null when it is no longer available. */
+  loadSource: (item: ResultItem) => Promise<Blob | null>
+  onNavigate: (offset: number) => void
+  onEdit: (item: ResultItem, key: string, value: string) => void
+  onCopy: (value: string) => void
+  onClose: () => void
+  /** Enables review mode: the review bar and its keyboard shortcuts. */
+  review?: {
+    reviewer: string
+    onReviewerChange: (name: string) => void
+    onReview: (item: ResultItem, status: ReviewStatus) => void
+  }
+}
+
+// Shortcuts must not fire while typing in an editor or picking from a list or calendar.
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest("input, textarea, select, [contenteditable=true], [role=listbox], [role=menu], [role=grid]")
+
+/** The source PDF and the extracted fields of one record side by side. */
+export function RecordPreview({
+  item,
+  definition,
+  position,
+  loadSource,
+  onNavigate,
+  onEdit,
+  onCopy,
+  onClose,
+  review,
+}: RecordPreviewProps) {
+  const [source, setSource] = React.useState<Blob | null | undefined>(undefined)
+  const [activeKey, setActiveKey] = React.useState<string | null>(null)
+  const [matchCount, setMatchCount] = React.useState<number | null>(null)
+  // Edits replace `item`; only a different file needs reloading.
+  const itemRef = React.useRef(item)
+  itemRef.current = item
+  const { filename, sourceId } = item
+
+  React.useEffect(() => {
+    let cancelled = false
+    setSource(undefined)
+    setActiveKey(null)
+    loadSource(itemRef.current)
+      .catch(() => null)
+      .then((file) => !cancelled && setSource(file))
+    return () => {
+      cancelled = true
+    }
+  }, [filename, sourceId, loadSource])
+
+  const decide = (status: ReviewStatus) => {
+    if (!review?.reviewer.trim()) return
+    review.onReview(item, status)
+    if (status !== "pending" && position.index < position.count - 1) onNavigate(1)
+  }
+
+  // Re-bound every render so the handler always sees the current record.
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return
+      if (event.key === "ArrowRight" || event.key === "ArrowLeft") {
+        const offset = event.key === "ArrowRight" ? 1 : -1
+        const target = position.index + offset
+        if (target >= 0 && target < position.count) onNavigate(offset)
+        event.preventDefault()
+        return
+      }
+      const status = review && REVIEW_SHORTCUTS[event.key.toLowerCase()]
+      if (status) {
+        decide(status)
+        event.preventDefault()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  })
+
+  const validation = validateRecord(definition, item)
+  const highlight = activeKey ? getItemValue(item, activeKey) : undefined
+  const handleHighlightCount = React.useCallback((count: number) => setMatchCount(count), [])
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[90vh] max-w-[95vw] flex-col gap-3 bg-gray-800 border-gray-700 text-white">
+        <DialogHeader className="pr-8">
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <DialogTitle className="truncate">{item.filename}</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                {item.documentType} · record {position.index + 1} of {position.count} · click a field to find it in the
+                PDF
+              </DialogDescription>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-gray-900 border-gray-700 text-white hover:bg-gray-700"
+                disabled={position.index === 0}
+                onClick={() => onNavigate(-1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-gray-900 border-gray-700 text-white hover:bg-gray-700"
+                disabled={position.index === position.count - 1}
+                onClick={() => onNavigate(1)}
+              >
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <ResizablePanelGroup direction="horizontal" className="min-h-0 flex-1 rounded-lg border border-gray-700">
+          <ResizablePanel defaultSize={60} minSize={30}>
+            {source === undefined ? (
+              <div className="flex h-full items-center justify-center gap-2 text-sm text-gray-400">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading PDF...
+              </div>
+            ) : source === null ? (
+              <div className="flex h-full flex-col items-center justify-center gap-2 p-6 text-center text-sm text-gray-400">
+                <FileWarning className="h-8 w-8 text-gray-500" />
+                The original PDF is not available. Keep the file in the upload queue, or enable
+                &quot;Keep original PDFs in history&quot;, to preview it here.
+              </div>
+            ) : (
+              <PdfViewer file={source} highlight={highlight} onHighlightCount={handleHighlightCount} />
+            )}
+          </ResizablePanel>
+          <ResizableHandle withHandle className="bg-gray-700" />
+          <ResizablePanel defaultSize={40} minSize={25}>
+            <div className="h-full overflow-y-auto">
+              {review && (
+                <ReviewBar
+                  item={item}
+                  reviewer={review.reviewer}
+                  onReviewerChange={review.onReviewerChange}
+                  onReview={decide}
+                />
+              )}
+              <div className="space-y-1 p-4">
+                {definition.fields.map((field) => {
+                  const active = activeKey === field.key
+                  return (
+                    <div
+                      key={field.key}
+                      className={cn(
+                        "grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] items-center gap-3 rounded-md px-2 py-1.5 text-sm",
+                        active ? "bg-purple-600/20 ring-1 ring-purple-500/50" : "hover:bg-gray-700/40"
+                      )}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setMatchCount(null)
+                          setActiveKey(active ? null : field.key)
+                        }}
+                        className="flex items-center gap-1.5 text-left text-gray-400 hover:text-white"
+                        title="Highlight this value in the PDF"
+                      >
+                        <Search className={cn("h-3 w-3 shrink-0", active ? "text-purple-400" : "text-gray-600")} />
+                        <span className="truncate">{field.label}</span>
+                      </button>
+                      <div className="min-w-0 text-gray-200">
+                        <EditableCell
+                          field={field}
+                          value={getItemValue(item, field.key)}
+                          original={getFieldValue(item.data, field.key)}
+                          edited={isEdited(item, field.key)}
+                          issues={validation.fields[field.key]}
+                          onChange={(value) => onEdit(item, field.key, value)}
+                          onCopy={onCopy}
+                        />
+                      </div>
+                      {active && source && matchCount === 0 && (
+                        <p className="col-span-2 text-xs text-yellow-400">
+                          {highlight ? "Not found in the PDF text layer." : "This field is empty."}
+                        </p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,367 @@
+"use client"
+
+import * as React from "react"
+import { ArrowRight, Copy, Download, FileDown, FileUp, FolderOpen, Loader2, Star, Trash2 } from "lucide-react"
+
+import { describeError } from "@/lib/api"
+import type { DocumentTypeDefinition } from "@/lib/document-types"
+import { saveBlob } from "@/lib/download"
+import {
+  duplicatePreset,
+  mergePresets,
+  parsePresetFile,
+  parseTemplate,
+  planRenames,
+  presetFor,
+  removePreset,
+  serializePresets,
+  SPECIAL_TOKENS,
+  TemplateSyntaxError,
+  toggleDefaultPreset,
+  unknownTemplateNames,
+  updatePreset,
+  type RenamePlanEntry,
+  type RenamePreset,
+  type RenamePresets,
+  type TemplatePart,
+} from "@/lib/rename"
+import type { ResultGroup } from "@/lib/results"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useRenamePresets } from "@/hooks/use-rename-presets"
+import { useToast } from "@/hooks/use-toast"
+import { useVirtualRows } from "@/hooks/use-virtual-rows"
+
+interface RenamePanelProps {
+  groups: ResultGroup[]
+  onDownload: (plan: RenamePlanEntry[]) => Promise<void>
+}
+
+const ROW_HEIGHT = 40
+
+function parse(template: string): { parts: TemplatePart[]; error: string | null } {
+  try {
+    return { parts: parseTemplate(template), error: null }
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return { parts: [], error: error.message }
+    throw error
+  }
+}
+
+/** Placeholders offered as shortcuts: every field of the given types, by key, then the special tokens. */
+function placeholderNames(definitions: readonly DocumentTypeDefinition[]): string[] {
+  const keys = definitions.flatMap((definition) => definition.fields.map((field) => field.key))
+  return [...Array.from(new Set(keys)), ...SPECIAL_TOKENS]
+}
+
+const ICON_BUTTON_CLASS = "h-8 w-8 shrink-0 bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700"
+
+/**
+ * Template editor for renaming the source PDFs, with the resulting name of
+ * every file. Each document type uses a saved preset, its default unless
+ * another one is picked here; editing the template edits that preset.
+ */
+export function RenamePanel({ groups, onDownload }: RenamePanelProps) {
+  const [building, setBuilding] = React.useState(false)
+  const [activeType, setActiveType] = React.useState<string | null>(null)
+  // Preset picked per document type for this run, overriding its default.
+  const [picked, setPicked] = React.useState<Record<string, string>>({})
+  const inputRef = React.useRef<HTMLInputElement>(null)
+  const importRef = React.useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+  const { store, update } = useRenamePresets()
+  const debouncedStore = useDebouncedValue(store, 150)
+
+  const definitions = React.useMemo(() => groups.map((group) => group.definition), [groups])
+  const active = definitions.find((definition) => definition.code === activeType) ?? definitions[0]
+
+  const presetOf = React.useCallback(
+    (source: RenamePresets, code: string): RenamePreset | undefined =>
+      source.presets.find((preset) => preset.id === picked[code]) ?? presetFor(source, code),
+    [picked]
+  )
+
+  const templates = React.useMemo(
+    () =>
+      new Map(
+        definitions.map((definition) => [
+          definition.code,
+          parse(presetOf(debouncedStore, definition.code)?.template ?? ""),
+        ])
+      ),
+    [definitions, debouncedStore, presetOf]
+  )
+  const failing = definitions.filter((definition) => templates.get(definition.code)?.error)
+  const { parts, error } = (active && templates.get(active.code)) || { parts: [], error: null }
+  const unknown = React.useMemo(() => (active ? unknownTemplateNames(parts, [active]) : []), [parts, active])
+  const plan = React.useMemo(
+    () =>
+      failing.length > 0
+        ? []
+        : planRenames(
+            groups.flatMap((group) => group.items.map((item) => ({ item, definition: group.definition }))),
+            (definition) => templates.get(definition.code)?.parts ?? []
+          ),
+    [failing.length, groups, templates]
+  )
+
+  const preset = active ? presetOf(store, active.code) : undefined
+  const template = preset?.template ?? ""
+  const isDefault = !!active && !!preset && store.defaults[active.code] === preset.id
+
+  const onTemplateChange = (next: string) => {
+    if (preset) update(updatePreset(store, preset.id, { template: next }))
+  }
+
+  const pick = (id: string) => active && setPicked((prev) => ({ ...prev, [active.code]: id }))
+
+  const duplicate = () => {
+    if (!preset) return
+    const result = duplicatePreset(store, preset.id)
+    update(result.store)
+    if (result.preset) pick(result.preset.id)
+  }
+
+  const remove = () => {
+    if (preset) update(removePreset(store, preset.id))
+  }
+
+  const exportPresets = () =>
+    saveBlob(new Blob([serializePresets(store)], { type: "application/json" }), "rename-presets.json")
+
+  const importPresets = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text())
+      update(mergePresets(store, imported))
+      setPicked({})
+      toast({
+        title: "Presets Imported",
+        description: `${imported.presets.length} preset${imported.presets.length > 1 ? "s" : ""} added`,
+      })
+    } catch (error) {
+      toast({ title: "Import Failed", description: describeError(error), variant: "destructive" })
+    }
+  }
+
+  const { scrollRef, start, end, paddingTop, paddingBottom } = useVirtualRows<HTMLDivElement>(plan.length, {
+    rowHeight: ROW_HEIGHT,
+  })
+
+  const insertPlaceholder = (name: string) => {
+    const input = inputRef.current
+    const at = input?.selectionStart ?? template.length
+    onTemplateChange(`${template.slice(0, at)}{${name}}${template.slice(input?.selectionEnd ?? at)}`)
+    input?.focus()
+  }
+
+  const download = async () => {
+    setBuilding(true)
+    try {
+      await onDownload(plan)
+    } finally {
+      setBuilding(false)
+    }
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <FolderOpen className="h-5 w-5 text-green-400" />
+              <span>Rename Files</span>
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Names are built from the corrected values; the ZIP is made in your browser.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={download}
+            size="sm"
+            disabled={building || failing.length > 0 || plan.length === 0}
+            className="shrink-0 bg-purple-600 hover:bg-purple-700"
+          >
+            {building ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Download ZIP
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {definitions.length > 1 && (
+          <div className="flex flex-wrap gap-1">
+            {definitions.map((definition) => (
+              <Button
+                key={definition.code}
+                size="sm"
+                variant="outline"
+                onClick={() => setActiveType(definition.code)}
+                className={cn(
+                  "h-7 bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700",
+                  definition === active && "border-purple-500 text-white",
+                  templates.get(definition.code)?.error && "text-red-400"
+                )}
+              >
+                {definition.code}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Select value={preset?.id ?? ""} onValueChange={pick}>
+            <SelectTrigger className="h-8 flex-1 bg-gray-900 border-gray-700 text-white" aria-label="Rename preset">
+              <SelectValue placeholder="Choose a preset" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700 text-white">
+              {store.presets.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name || "Untitled"}
+                  {active && store.defaults[active.code] === option.id ? ` (default for ${active.code})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!preset || !active}
+            onClick={() => active && preset && update(toggleDefaultPreset(store, active.code, preset.id))}
+            className={cn(ICON_BUTTON_CLASS, isDefault && "text-yellow-400")}
+            title={isDefault ? `Default for ${active?.code}; click to unset` : `Use by default for ${active?.code}`}
+          >
+            <Star className={cn("h-4 w-4", isDefault && "fill-current")} />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!preset}
+            onClick={duplicate}
+            className={ICON_BUTTON_CLASS}
+            title="Duplicate preset"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!preset || store.presets.length <= 1}
+            onClick={remove}
+            className={ICON_BUTTON_CLASS}
+            title="Delete preset"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => importRef.current?.click()}
+            className={ICON_BUTTON_CLASS}
+            title="Import presets from JSON"
+          >
+            <FileUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={exportPresets}
+            className={ICON_BUTTON_CLASS}
+            title="Export presets as JSON"
+          >
+            <FileDown className="h-4 w-4" />
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) importPresets(file)
+              e.target.value = ""
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            value={preset?.name ?? ""}
+            disabled={!preset}
+            onChange={(e) => preset && update(updatePreset(store, preset.id, { name: e.target.value }))}
+            placeholder="Preset name"
+            aria-label="Preset name"
+            className="h-8 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+          />
+          <Input
+            ref={inputRef}
+            value={template}
+            onChange={(e) => onTemplateChange(e.target.value)}
+            disabled={!preset}
+            spellCheck={false}
+            aria-label="Filename template"
+            className={cn(
+              "font-mono text-sm bg-gray-900 border-gray-700 text-white",
+              error && "border-red-500 focus-visible:ring-red-500"
+            )}
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {unknown.length > 0 && active && (
+            <p className="text-xs text-yellow-400">
+              Not a field of {active.code}: {unknown.map((name) => `{${name}}`).join(", ")}
+            </p>
+          )}
+          {failing.length > 0 && failing.some((definition) => definition !== active) && (
+            <p className="text-xs text-red-400">
+              Fix the template of {failing.map((definition) => definition.code).join(", ")} to download.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {placeholderNames(active ? [active] : []).map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => insertPlaceholder(name)}
+                className="rounded border border-gray-700 bg-gray-900 px-1.5 py-0.5 font-mono text-xs text-gray-400 hover:border-purple-500 hover:text-white"
+              >
+                {`{${name}}`}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Use <code>{"{A|B}"}</code> for the first of A or B that has a value, <code>{"{Date Issue:yyyyMMdd}"}</code>{" "}
+            to format a date and <code>:upper</code> or <code>:lower</code> to change case. Duplicate names get{" "}
+            <code>_2</code>, <code>_3</code>, ...
+          </p>
+        </div>
+
+        <div ref={scrollRef} className="max-h-96 overflow-y-auto rounded-lg border border-gray-700 bg-gray-900">
+          <div style={{ height: paddingTop }} aria-hidden />
+          {plan.slice(start, end).map((entry, offset) => (
+            <div
+              key={`${entry.original}-${start + offset}`}
+              className="flex items-center gap-2 border-b border-gray-800 px-3 text-sm"
+              style={{ height: ROW_HEIGHT }}
+            >
+              <span className="w-2/5 truncate text-gray-400" title={entry.original}>
+                {entry.original}
+              </span>
+              <ArrowRight className="h-4 w-4 shrink-0 text-gray-600" />
+              <span
+                className={cn("flex-1 truncate font-medium", entry.fallback ? "text-yellow-400" : "text-white")}
+                title={entry.fallback ? "The template gave an empty name; the original name is kept" : entry.renamed}
+              >
+                {entry.renamed}
+              </span>
+            </div>
+          ))}
+          <div style={{ height: paddingBottom }} aria-hidden />
+          {plan.length === 0 && failing.length === 0 && <p className="p-3 text-sm text-gray-500">No records to rename</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
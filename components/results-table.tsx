@@ -0,0 +1,341 @@
+"use client"
+
+import * as React from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown, Eye, FilterX, Pin } from "lucide-react"
+
+import type { ResultItem, ReviewStatus } from "@/lib/api"
+import { getFieldValue, recordMatches, type DocumentTypeDefinition } from "@/lib/document-types"
+import { getEffectiveRecord, getItemValue, isEdited } from "@/lib/results"
+import {
+  applyTableView,
+  distinctValues,
+  FILENAME_KEY,
+  filterKindFor,
+  isFilterActive,
+  resolveColumns,
+  type ColumnFilter,
+  type ColumnFilters,
+  type SortState,
+} from "@/lib/table-view"
+import { cn } from "@/lib/utils"
+import { validateRecord, type RecordValidation } from "@/lib/validation"
+import { ColumnFilterPopover } from "@/components/column-filter"
+import { ColumnSettings } from "@/components/column-settings"
+import { EditableCell } from "@/components/editable-cell"
+import { ReviewStatusMenu } from "@/components/review-status"
+import { Button } from "@/components/ui/button"
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useColumnPreferences } from "@/hooks/use-column-preferences"
+import { useVirtualRows } from "@/hooks/use-virtual-rows"
+
+interface ResultsTableProps {
+  definition: DocumentTypeDefinition
+  items: ResultItem[]
+  searchQuery: string
+  onCopy: (value: string) => void
+  onEdit: (item: ResultItem, key: string, value: string) => void
+  /** Opens the record next to its source PDF. */
+  onPreview?: (item: ResultItem) => void
+  onReview?: (item: ResultItem, status: ReviewStatus) => void
+  /** Hides rows that pass validation. */
+  problemsOnly?: boolean
+}
+
+function IssueCount({ validation }: { validation: RecordValidation }) {
+  const count = validation.issues.length
+  if (count === 0) return null
+  return (
+    <span
+      className={cn(
+        "rounded-full px-1.5 text-xs font-medium",
+        validation.status === "error" ? "bg-red-500/20 text-red-400" : "bg-yellow-500/20 text-yellow-400"
+      )}
+      title={validation.issues.map((issue) => `${issue.key}: ${issue.message}`).join("\n")}
+    >
+      {count}
+    </span>
+  )
+}
+
+// Rows have a fixed height so the body can be windowed; cells do not wrap.
+const ROW_HEIGHT = 44
+const NO_WIDTH = 80
+const FILENAME_WIDTH = 240
+const PINNED_WIDTH = 176
+
+const HEAD_CLASS = "sticky top-0 z-20 bg-gray-800 text-gray-400"
+const FROZEN_HEAD_CLASS = "z-30"
+const CELL_CLASS = "py-2 whitespace-nowrap text-gray-300"
+const FROZEN_CELL_CLASS = "z-10 bg-gray-800"
+
+type ResolvedColumn = ReturnType<typeof resolveColumns>[number]
+
+/** Sticky positioning for the frozen columns, which need fixed widths to stack. */
+const frozenStyle = (left: number, width: number): React.CSSProperties => ({
+  position: "sticky",
+  left,
+  width,
+  minWidth: width,
+  maxWidth: width,
+})
+
+const pinnedLeft = (index: number) => NO_WIDTH + FILENAME_WIDTH + index * PINNED_WIDTH
+
+// Each click cycles ascending, descending, unsorted.
+const nextSort = (sort: SortState | null, key: string): SortState | null => {
+  if (sort?.key !== key) return { key, direction: "asc" }
+  return sort.direction === "asc" ? { key, direction: "desc" } : null
+}
+
+function SortButton({
+  label,
+  sortKey,
+  sort,
+  onSort,
+}: {
+  label: string
+  sortKey: string
+  sort: SortState | null
+  onSort: (sort: SortState | null) => void
+}) {
+  const direction = sort?.key === sortKey ? sort.direction : null
+  const Icon = direction === "asc" ? ArrowUp : direction === "desc" ? ArrowDown : ArrowUpDown
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(nextSort(sort, sortKey))}
+      className={cn("flex items-center gap-1 whitespace-nowrap hover:text-white", direction && "text-purple-400")}
+      aria-label={`Sort by ${label}`}
+    >
+      {label}
+      <Icon className={cn("h-3 w-3", !direction && "text-gray-600")} />
+    </button>
+  )
+}
+
+export function ResultsTable({
+  definition,
+  items,
+  searchQuery,
+  onCopy,
+  onEdit,
+  onPreview,
+  onReview,
+  problemsOnly,
+}: ResultsTableProps) {
+  const [sort, setSort] = React.useState<SortState | null>(null)
+  const [filters, setFilters] = React.useState<ColumnFilters>({})
+  const { preferences, update: updatePreferences, reset: resetPreferences } = useColumnPreferences(definition.code)
+
+  const fields = definition.fields
+  const columns = React.useMemo(() => resolveColumns(fields, preferences), [fields, preferences])
+  const pinnedColumns = columns.filter((column) => column.pinned)
+  const otherColumns = columns.filter((column) => !column.pinned)
+  const activeFilters = Object.values(filters).filter(isFilterActive).length
+
+  // Everything derived from `items` is memoized so scrolling and typing only re-render the visible rows.
+  const validations = React.useMemo(
+    () => new Map(items.map((item) => [item, validateRecord(definition, item)])),
+    [items, definition]
+  )
+  const facetValues = React.useMemo(
+    () =>
+      new Map(
+        fields
+          .filter((field) => filterKindFor(field) === "values")
+          .map((field) => [field.key, distinctValues(items, field.key)])
+      ),
+    [items, fields]
+  )
+  // Rows are keyed by the record, not their sorted position, so an open editor stays with its record.
+  // Sessions saved before `sourceId` existed fall back to the record's place in `items`.
+  const rowKeys = React.useMemo(
+    () => new Map(items.map((item, index) => [item, item.sourceId ?? `item-${index}`])),
+    [items]
+  )
+
+  const rows = React.useMemo(() => {
+    const query = searchQuery.toLowerCase()
+    const searched = items.filter(
+      (item) =>
+        !query || item.filename.toLowerCase().includes(query) || recordMatches(getEffectiveRecord(item), fields, query)
+    )
+    return applyTableView(searched, fields, filters, sort).filter(
+      (item) => !problemsOnly || (validations.get(item)?.issues.length ?? 0) > 0
+    )
+  }, [items, fields, searchQuery, filters, sort, problemsOnly, validations])
+
+  const { scrollRef, start, end, paddingTop, paddingBottom } = useVirtualRows<HTMLDivElement>(rows.length, {
+    rowHeight: ROW_HEIGHT,
+  })
+  const columnCount = columns.length + (onReview ? 3 : 2)
+
+  const setFilter = (key: string, filter: ColumnFilter | undefined) =>
+    setFilters((prev) => {
+      const { [key]: _removed, ...rest } = prev
+      return filter ? { ...rest, [key]: filter } : rest
+    })
+
+  const renderFieldHead = ({ field, pinned }: ResolvedColumn, index: number) => (
+    <TableHead
+      key={field.key}
+      className={cn(
+        HEAD_CLASS,
+        pinned && FROZEN_HEAD_CLASS,
+        pinned && index === pinnedColumns.length - 1 && "border-r border-gray-700"
+      )}
+      style={pinned ? frozenStyle(pinnedLeft(index), PINNED_WIDTH) : undefined}
+    >
+      <div className="flex items-center gap-1">
+        {pinned && <Pin className="h-3 w-3 shrink-0 text-purple-400" aria-label="Pinned" />}
+        <SortButton label={field.label} sortKey={field.key} sort={sort} onSort={setSort} />
+        <ColumnFilterPopover
+          field={field}
+          filter={filters[field.key]}
+          values={facetValues.get(field.key) ?? []}
+          onChange={(filter) => setFilter(field.key, filter)}
+        />
+      </div>
+    </TableHead>
+  )
+
+  const renderFieldCell = (
+    row: ResultItem,
+    validation: RecordValidation | undefined,
+    { field, pinned }: ResolvedColumn,
+    index: number
+  ) => (
+    <TableCell
+      key={field.key}
+      className={cn(
+        CELL_CLASS,
+        pinned && FROZEN_CELL_CLASS,
+        pinned && index === pinnedColumns.length - 1 && "border-r border-gray-700"
+      )}
+      style={pinned ? frozenStyle(pinnedLeft(index), PINNED_WIDTH) : undefined}
+    >
+      <EditableCell
+        field={field}
+        value={getItemValue(row, field.key)}
+        original={getFieldValue(row.data, field.key)}
+        edited={isEdited(row, field.key)}
+        issues={validation?.fields[field.key]}
+        onChange={(value) => onEdit(row, field.key, value)}
+        onCopy={onCopy}
+      />
+    </TableCell>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500">
+          {rows.length < items.length && `Showing ${rows.length} of ${items.length} records`}
+        </span>
+        <div className="flex items-center gap-2">
+          {activeFilters > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-gray-400 hover:text-white hover:bg-gray-700"
+              onClick={() => setFilters({})}
+            >
+              <FilterX className="mr-2 h-4 w-4" />
+              Clear {activeFilters} filter{activeFilters > 1 ? "s" : ""}
+            </Button>
+          )}
+          <ColumnSettings
+            fields={fields}
+            preferences={preferences}
+            onChange={updatePreferences}
+            onReset={resetPreferences}
+          />
+        </div>
+      </div>
+
+      {/* One element scrolls both ways so the header can stick to its top and the first columns to its left. */}
+      <div ref={scrollRef} className="max-h-[70vh] overflow-auto rounded-md border border-gray-700">
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader>
+            <TableRow className="border-gray-700 hover:bg-transparent">
+              <TableHead className={cn(HEAD_CLASS, FROZEN_HEAD_CLASS)} style={frozenStyle(0, NO_WIDTH)}>
+                No
+              </TableHead>
+              <TableHead
+                className={cn(HEAD_CLASS, FROZEN_HEAD_CLASS, pinnedColumns.length === 0 && "border-r border-gray-700")}
+                style={frozenStyle(NO_WIDTH, FILENAME_WIDTH)}
+              >
+                <SortButton label="Filename" sortKey={FILENAME_KEY} sort={sort} onSort={setSort} />
+              </TableHead>
+              {pinnedColumns.map(renderFieldHead)}
+              {onReview && <TableHead className={HEAD_CLASS}>Review</TableHead>}
+              {otherColumns.map(renderFieldHead)}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && <tr style={{ height: paddingTop }} aria-hidden />}
+            {rows.slice(start, end).map((row, offset) => {
+              const index = start + offset
+              const validation = validations.get(row)
+              return (
+                <TableRow
+                  key={rowKeys.get(row)}
+                  className="border-gray-700 hover:bg-gray-800/50"
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <TableCell className={cn(CELL_CLASS, FROZEN_CELL_CLASS)} style={frozenStyle(0, NO_WIDTH)}>
+                    <div className="flex items-center gap-1.5">
+                      {index + 1}
+                      {validation && <IssueCount validation={validation} />}
+                    </div>
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      CELL_CLASS,
+                      FROZEN_CELL_CLASS,
+                      "font-medium",
+                      pinnedColumns.length === 0 && "border-r border-gray-700"
+                    )}
+                    style={frozenStyle(NO_WIDTH, FILENAME_WIDTH)}
+                  >
+                    <div className="flex items-center gap-2">
+                      {onPreview && (
+                        <button
+                          type="button"
+                          onClick={() => onPreview(row)}
+                          className="shrink-0 text-gray-500 hover:text-purple-400"
+                          aria-label={`Preview ${row.filename}`}
+                          title="Compare with the source PDF"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
+                      )}
+                      <span className="truncate" title={row.filename}>
+                        {row.filename}
+                      </span>
+                    </div>
+                  </TableCell>
+                  {pinnedColumns.map((column, i) => renderFieldCell(row, validation, column, i))}
+                  {onReview && (
+                    <TableCell className={CELL_CLASS}>
+                      <ReviewStatusMenu item={row} onChange={(status) => onReview(row, status)} />
+                    </TableCell>
+                  )}
+                  {otherColumns.map((column, i) => renderFieldCell(row, validation, column, i))}
+                </TableRow>
+              )
+            })}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }} aria-hidden />}
+            {rows.length === 0 && (
+              <TableRow className="border-gray-700">
+                <TableCell colSpan={columnCount} className="text-center text-gray-500">
+                  No matching records
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { Check, CircleDashed, Wrench, X } from "lucide-react"
+
+import type { ResultItem, ReviewStatus } from "@/lib/api"
+import { getReviewStatus, REVIEW_LABELS, REVIEW_STATUSES } from "@/lib/review"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+
+const REVIEW_STYLES: Record<ReviewStatus, string> = {
+  pending: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+  approved: "bg-green-500/20 text-green-400 border-green-500/30",
+  "needs-fix": "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  rejected: "bg-red-500/20 text-red-400 border-red-500/30",
+}
+
+const REVIEW_ICONS: Record<ReviewStatus, typeof Check> = {
+  pending: CircleDashed,
+  approved: Check,
+  "needs-fix": Wrench,
+  rejected: X,
+}
+
+/** Single-key shortcuts used in review mode. */
+export const REVIEW_SHORTCUTS: Record<string, ReviewStatus> = {
+  a: "approved",
+  f: "needs-fix",
+  r: "rejected",
+  u: "pending",
+}
+
+const shortcutFor = (status: ReviewStatus) =>
+  Object.keys(REVIEW_SHORTCUTS).find((key) => REVIEW_SHORTCUTS[key] === status)?.toUpperCase()
+
+function describeReview(item: ResultItem) {
+  const { review } = item
+  if (!review) return "Not reviewed yet"
+  return `${REVIEW_LABELS[review.status]} by ${review.reviewer} on ${new Date(review.reviewedAt).toLocaleString()}`
+}
+
+export function ReviewBadge({ item, className }: { item: ResultItem; className?: string }) {
+  const status = getReviewStatus(item)
+  const Icon = REVIEW_ICONS[status]
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 text-xs", REVIEW_STYLES[status], className)}
+      title={describeReview(item)}
+    >
+      <Icon className="h-3 w-3" />
+      {REVIEW_LABELS[status]}
+    </Badge>
+  )
+}
+
+interface ReviewStatusMenuProps {
+  item: ResultItem
+  onChange: (status: ReviewStatus) => void
+}
+
+/** The review badge of a table row, opening a menu to change the status. */
+export function ReviewStatusMenu({ item, onChange }: ReviewStatusMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button type="button" aria-label={`Review status of ${item.filename}`}>
+          <ReviewBadge item={item} className="cursor-pointer" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="bg-gray-800 border-gray-700 text-white">
+        {REVIEW_STATUSES.map((status) => (
+          <DropdownMenuItem key={status} onSelect={() => onChange(status)}>
+            {REVIEW_LABELS[status]}
+            <DropdownMenuShortcut>{shortcutFor(status)}</DropdownMenuShortcut>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+interface ReviewBarProps {
+  item: ResultItem
+  reviewer: string
+  onReviewerChange: (name: string) => void
+  onReview: (status: ReviewStatus) => void
+}
+
+/** Review controls shown above the record form in review mode. */
+export function ReviewBar({ item, reviewer, onReviewerChange, onReview }: ReviewBarProps) {
+  const decisions: { status: ReviewStatus; className: string }[] = [
+    { status: "approved", className: "bg-green-600 hover:bg-green-700" },
+    { status: "needs-fix", className: "bg-yellow-600 hover:bg-yellow-700" },
+    { status: "rejected", className: "bg-red-600 hover:bg-red-700" },
+  ]
+
+  return (
+    <div className="space-y-3 border-b border-gray-700 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <ReviewBadge item={item} />
+        <span className="truncate text-xs text-gray-500">{describeReview(item)}</span>
+      </div>
+      <Input
+        value={reviewer}
+        onChange={(e) => onReviewerChange(e.target.value)}
+        placeholder="Your name (required to review)"
+        className="h-8 bg-gray-900 border-gray-700 text-white placeholder-gray-500"
+      />
+      <div className="flex flex-wrap gap-2">
+        {decisions.map(({ status, className }) => (
+          <Button
+            key={status}
+            size="sm"
+            className={className}
+            disabled={!reviewer.trim()}
+            onClick={() => onReview(status)}
+          >
+            {REVIEW_LABELS[status]}
+            <kbd className="ml-2 rounded bg-black/30 px-1 text-[10px]">{shortcutFor(status)}</kbd>
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Keys: A approve, F needs fix, R reject, U undo, ← / → previous / next. Each decision moves on to the next record.
+      </p>
+    </div>
+  )
+}
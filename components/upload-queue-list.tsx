@@ -0,0 +1,203 @@
+"use client"
+
+import { AlertTriangle, ArrowDown, ArrowUp, Ban, CheckCircle, FileText, Loader2, Sparkles, X, XCircle } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import type { DocumentTypeInfo } from "@/lib/api"
+import type { DetectionConfidence } from "@/lib/document-types"
+import { hasTypeMismatch, type QueueEntry, type QueueEntryStatus } from "@/lib/upload-queue"
+import { DocumentTypeCombobox } from "@/components/document-type-combobox"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+
+const STATUS_STYLES: Record<QueueEntryStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-gray-500/20 text-gray-300 border-gray-500/30" },
+  uploading: { label: "Uploading", className: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30" },
+  processing: { label: "Processing", className: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  extracted: { label: "Extracted", className: "bg-green-500/20 text-green-400 border-green-500/30" },
+  failed: { label: "Failed", className: "bg-red-500/20 text-red-400 border-red-500/30" },
+  cancelled: { label: "Cancelled", className: "bg-orange-500/20 text-orange-400 border-orange-500/30" },
+}
+
+function StatusIcon({ status }: { status: QueueEntryStatus }) {
+  switch (status) {
+    case "uploading":
+      return <Loader2 className="h-5 w-5 text-yellow-400 animate-spin" />
+    case "processing":
+      return <Loader2 className="h-5 w-5 text-cyan-400 animate-spin" />
+    case "extracted":
+      return <CheckCircle className="h-5 w-5 text-green-400" />
+    case "failed":
+      return <XCircle className="h-5 w-5 text-red-400" />
+    case "cancelled":
+      return <Ban className="h-5 w-5 text-orange-400" />
+    default:
+      return <FileText className="h-5 w-5 text-gray-400" />
+  }
+}
+
+const CONFIDENCE_STYLES: Record<DetectionConfidence, string> = {
+  high: "text-green-400",
+  medium: "text-yellow-400",
+  low: "text-gray-500",
+}
+
+function DetectionIndicator({ entry }: { entry: QueueEntry }) {
+  const { detection } = entry
+
+  if (detection === undefined) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-gray-500" title="Reading PDF to detect its type">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Detecting
+      </span>
+    )
+  }
+
+  if (detection && hasTypeMismatch(entry)) {
+    return (
+      <span
+        className="flex items-center gap-1 text-xs text-yellow-400"
+        title={`Content looks like ${detection.code} (${detection.confidence} confidence), not ${entry.options.documentType}`}
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Looks like {detection.code}
+      </span>
+    )
+  }
+
+  if (detection && entry.options.documentTypeSource === "detected") {
+    return (
+      <span
+        className={cn("flex items-center gap-1 text-xs", CONFIDENCE_STYLES[detection.confidence])}
+        title={`Detected from PDF content (${detection.confidence} confidence)`}
+      >
+        <Sparkles className="h-3 w-3" />
+        {Math.round(detection.score * 100)}%
+      </span>
+    )
+  }
+
+  return null
+}
+
+interface UploadQueueListProps {
+  entries: QueueEntry[]
+  documentTypes: DocumentTypeInfo[]
+  selectedIds: Set<string>
+  disabled?: boolean
+  onToggleSelect: (id: string) => void
+  onDocumentTypeChange: (id: string, code: string) => void
+  onRemove: (id: string) => void
+  onMove: (id: string, toIndex: number) => void
+  /** When given, files being extracted get a cancel button that stays enabled while `disabled`. */
+  onCancel?: (id: string) => void
+}
+
+export function UploadQueueList({
+  entries,
+  documentTypes,
+  selectedIds,
+  disabled,
+  onToggleSelect,
+  onDocumentTypeChange,
+  onRemove,
+  onMove,
+  onCancel,
+}: UploadQueueListProps) {
+  return (
+    <div className="grid gap-2 max-h-80 overflow-y-auto">
+      {entries.map((entry, index) => {
+        const status = STATUS_STYLES[entry.status]
+        return (
+          <div
+            key={entry.id}
+            className={cn(
+              "flex items-center justify-between gap-3 p-3 bg-gray-800/50 rounded-lg border",
+              selectedIds.has(entry.id) ? "border-purple-500/50" : "border-gray-700"
+            )}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(entry.id)}
+                onChange={() => onToggleSelect(entry.id)}
+                disabled={disabled}
+                aria-label={`Select ${entry.file.name}`}
+                className="rounded border-gray-600 text-purple-600 focus:ring-purple-500 bg-gray-700"
+              />
+              <StatusIcon status={entry.status} />
+              <div className="min-w-0">
+                <p className="text-sm text-gray-300 truncate max-w-xs">{entry.file.name}</p>
+                {entry.error && <p className="text-xs text-red-400 truncate max-w-xs">{entry.error}</p>}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <DetectionIndicator entry={entry} />
+              <DocumentTypeCombobox
+                value={entry.options.documentType}
+                onChange={(code) => onDocumentTypeChange(entry.id, code)}
+                documentTypes={documentTypes}
+                disabled={disabled}
+                compact
+                className="h-8 w-28"
+              />
+              <Badge variant="outline" className={cn("text-xs", status.className)}>
+                {status.label}
+              </Badge>
+              <span className="text-xs text-gray-500 w-16 text-right">
+                {(entry.file.size / 1024 / 1024).toFixed(2)} MB
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-gray-400 hover:text-white hover:bg-gray-700"
+                disabled={disabled || index === 0}
+                onClick={() => onMove(entry.id, index - 1)}
+                aria-label={`Move ${entry.file.name} up`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-gray-400 hover:text-white hover:bg-gray-700"
+                disabled={disabled || index === entries.length - 1}
+                onClick={() => onMove(entry.id, index + 1)}
+                aria-label={`Move ${entry.file.name} down`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              {onCancel && (entry.status === "uploading" || entry.status === "processing") ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                  onClick={() => onCancel(entry.id)}
+                  aria-label={`Cancel ${entry.file.name}`}
+                >
+                  <Ban className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                  disabled={disabled}
+                  onClick={() => onRemove(entry.id)}
+                  aria-label={`Remove ${entry.file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
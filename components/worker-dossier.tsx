@@ -0,0 +1,163 @@
+"use client"
+
+import { AlertTriangle, CalendarClock, FileText, Link2 } from "lucide-react"
+
+import { formatDmy } from "@/lib/dates"
+import { ATTRIBUTE_LABELS, type DossierDocument, type PersonProfile } from "@/lib/dossier"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+const describeDocuments = (documents: readonly DossierDocument[]) =>
+  documents.map((document) => `${document.definition.code} (${document.item.filename})`).join(", ")
+
+const sessionDate = (document: DossierDocument) => formatDmy(new Date(document.sessionCreatedAt))
+
+/** Everything known about one person: their documents, where those disagree, and a timeline. */
+export function WorkerDossier({ profile }: { profile: PersonProfile }) {
+  const today = new Date()
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-white">{profile.name || "Unnamed"}</CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-2 text-gray-400">
+            {profile.passports.length > 0 ? (
+              profile.passports.map((passport) => (
+                <Badge key={passport} variant="outline" className="border-purple-500/50 font-mono text-purple-300">
+                  {passport}
+                </Badge>
+              ))
+            ) : (
+              <span>No passport number on file</span>
+            )}
+            {profile.nationality && <span>{profile.nationality}</span>}
+            <span>
+              {profile.documents.length} document{profile.documents.length === 1 ? "" : "s"}
+            </span>
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {profile.conflicts.length > 0 && (
+        <Card className="bg-yellow-500/10 border-yellow-500/30">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base text-yellow-400">
+              <AlertTriangle className="h-4 w-4" />
+              Conflicting values
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {profile.conflicts.map((conflict) => (
+              <div key={conflict.attribute} className="space-y-1">
+                <p className="text-sm font-medium text-gray-200">{ATTRIBUTE_LABELS[conflict.attribute]}</p>
+                {conflict.values.map(({ value, documents }) => (
+                  <p key={value} className="text-sm text-gray-300">
+                    <span className="font-mono text-white">{value}</span>{" "}
+                    <span className="text-gray-500">in {describeDocuments(documents)}</span>
+                  </p>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-white">
+            <FileText className="h-5 w-5 text-purple-400" />
+            Documents
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto rounded-md border border-gray-700">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-700 hover:bg-transparent">
+                  <TableHead className="text-gray-400">Type</TableHead>
+                  <TableHead className="text-gray-400">File</TableHead>
+                  <TableHead className="text-gray-400">Name</TableHead>
+                  <TableHead className="text-gray-400">Passport</TableHead>
+                  <TableHead className="text-gray-400">Date of birth</TableHead>
+                  <TableHead className="text-gray-400">Extracted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profile.documents.map((document, index) => (
+                  <TableRow
+                    key={`${document.sessionId}-${index}`}
+                    className="border-gray-700 hover:bg-gray-800/50"
+                  >
+                    <TableCell>
+                      <Badge variant="outline" className="border-gray-600 text-gray-300">
+                        {document.definition.code}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-[14rem] truncate text-gray-300" title={document.item.filename}>
+                      {document.item.filename}
+                    </TableCell>
+                    <TableCell className="text-gray-300">
+                      <span className="flex items-center gap-1.5">
+                        {document.facts.name || "-"}
+                        {document.matchedByName && (
+                          <span title="Matched on the name because the document has no passport number">
+                            <Link2 className="h-3.5 w-3.5 text-yellow-400" />
+                          </span>
+                        )}
+                      </span>
+                    </TableCell>
+                    <TableCell className="font-mono text-gray-300">{document.facts.passport || "-"}</TableCell>
+                    <TableCell className="text-gray-300">{document.facts.birthDate || "-"}</TableCell>
+                    <TableCell className="text-gray-500">{sessionDate(document)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-white">
+            <CalendarClock className="h-5 w-5 text-cyan-400" />
+            Timeline
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {profile.timeline.length === 0 ? (
+            <p className="text-sm text-gray-500">None of the documents has a readable date</p>
+          ) : (
+            <ol className="relative space-y-3 border-l border-gray-700 pl-5">
+              {profile.timeline.map((event, index) => {
+                const past = event.date < today
+                return (
+                  <li key={index} className="relative">
+                    <span
+                      className={cn(
+                        "absolute -left-[1.65rem] top-1.5 h-2.5 w-2.5 rounded-full",
+                        past ? "bg-gray-600" : "bg-cyan-400"
+                      )}
+                    />
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className={cn("font-mono", past ? "text-gray-500" : "text-white")}>
+                        {formatDmy(event.date)}
+                      </span>
+                      <span className={past ? "text-gray-400" : "text-gray-200"}>{event.label}</span>
+                      <Badge variant="outline" className="border-gray-600 text-xs text-gray-400">
+                        {event.document.definition.code}
+                      </Badge>
+                    </div>
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
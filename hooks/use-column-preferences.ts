@@ -0,0 +1,50 @@
+"use client"
+
+import * as React from "react"
+
+import { DEFAULT_COLUMN_PREFERENCES, readStoredColumnPreferences, type ColumnPreferences } from "@/lib/table-view"
+
+const STORAGE_KEY = "pdf-extractor:table-columns"
+
+// Layouts that fail the check, e.g. from an older version or edited by hand, are dropped,
+// so their document type falls back to the default layout.
+function readAll(): Record<string, ColumnPreferences> {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const stored: unknown = raw ? JSON.parse(raw) : null
+    if (!stored || typeof stored !== "object" || Array.isArray(stored)) return {}
+    return Object.fromEntries(
+      Object.entries(stored).flatMap(([documentType, value]) => {
+        const preferences = readStoredColumnPreferences(value)
+        return preferences ? [[documentType, preferences]] : []
+      })
+    )
+  } catch {
+    return {}
+  }
+}
+
+/** Column order, visibility and pins of one document type's table, kept in localStorage. */
+export function useColumnPreferences(documentType: string) {
+  const [preferences, setPreferences] = React.useState<ColumnPreferences>(DEFAULT_COLUMN_PREFERENCES)
+
+  React.useEffect(() => {
+    setPreferences({ ...DEFAULT_COLUMN_PREFERENCES, ...readAll()[documentType] })
+  }, [documentType])
+
+  const update = React.useCallback(
+    (next: ColumnPreferences) => {
+      setPreferences(next)
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [documentType]: next }))
+      } catch {
+        // Storage full or disabled; the layout still applies until the page is closed.
+      }
+    },
+    [documentType]
+  )
+
+  const reset = React.useCallback(() => update(DEFAULT_COLUMN_PREFERENCES), [update])
+
+  return { preferences, update, reset }
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import * as React from "react"
+import { z } from "zod"
+
+import { apiClient, documentTypeInfoSchema, type DocumentTypeInfo } from "@/lib/api"
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_CODES } from "@/lib/document-types"
+
+const STORAGE_KEY = "pdf-extractor:document-types"
+const CACHE_TTL = 24 * 60 * 60 * 1000
+
+type DocumentTypesSource = "api" | "cache" | "fallback"
+
+const cachedDocumentTypesSchema = z.object({
+  fetchedAt: z.number(),
+  types: z.array(documentTypeInfoSchema),
+})
+
+type CachedDocumentTypes = z.infer<typeof cachedDocumentTypesSchema>
+
+/** Shipped with the frontend so the form keeps working while the API is offline. */
+export const BUNDLED_DOCUMENT_TYPES: DocumentTypeInfo[] = DOCUMENT_TYPE_CODES.map((code) => ({
+  code,
+  name: DOCUMENT_TYPES[code].name,
+  description: DOCUMENT_TYPES[code].description,
+}))
+
+// One request per page load, shared by every component using the hook.
+let pending: Promise<DocumentTypeInfo[]> | null = null
+
+function readCache(): CachedDocumentTypes | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    // A cache in any other shape, e.g. written by an older version, is ignored and refetched.
+    const parsed = raw ? cachedDocumentTypesSchema.safeParse(JSON.parse(raw)) : null
+    return parsed?.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+function writeCache(types: DocumentTypeInfo[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ fetchedAt: Date.now(), types }))
+  } catch {
+    // Storage full or disabled; the in-memory result is still used.
+  }
+}
+
+export function useDocumentTypes() {
+  const [documentTypes, setDocumentTypes] = React.useState<DocumentTypeInfo[]>(BUNDLED_DOCUMENT_TYPES)
+  const [source, setSource] = React.useState<DocumentTypesSource>("fallback")
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const cached = readCache()
+    if (cached?.types.length) {
+      setDocumentTypes(cached.types)
+      setSource("cache")
+      if (Date.now() - cached.fetchedAt < CACHE_TTL) {
+        setLoading(false)
+        return
+      }
+    }
+
+    pending ??= apiClient.documentTypes().then(({ supported_types }) => {
+      writeCache(supported_types)
+      return supported_types
+    })
+
+    pending
+      .then((types) => {
+        if (cancelled || types.length === 0) return
+        setDocumentTypes(types)
+        setSource("api")
+      })
+      .catch((err) => {
+        pending = null
+        console.warn("Could not load document types, using bundled list:", err)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { documentTypes, source, loading }
+}
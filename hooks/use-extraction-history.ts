@@ -0,0 +1,98 @@
+"use client"
+
+import * as React from "react"
+
+import type { ExtractionResult } from "@/lib/api"
+import {
+  deleteSession,
+  estimateStorage,
+  listSessions,
+  saveSession,
+  updateSessionResult,
+  type ExtractionSession,
+  type SessionFile,
+  type StorageUsage,
+} from "@/lib/history"
+
+const UPDATE_DELAY = 500
+
+export function useExtractionHistory() {
+  const [sessions, setSessions] = React.useState<ExtractionSession[]>([])
+  const [storage, setStorage] = React.useState<StorageUsage | null>(null)
+  const [loading, setLoading] = React.useState(true)
+  const [available, setAvailable] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const [list, usage] = await Promise.all([listSessions(), estimateStorage()])
+      setSessions(list)
+      setStorage(usage)
+    } catch (err) {
+      console.warn("Extraction history is unavailable:", err)
+      setAvailable(false)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const save = React.useCallback(
+    async (result: ExtractionResult, files?: SessionFile[]) => {
+      const session = await saveSession(result, files)
+      await refresh()
+      return session
+    },
+    [refresh]
+  )
+
+  // Edits and review decisions arrive per keystroke or click. They are applied to the
+  // listed sessions at once, but written in one go per UPDATE_DELAY, latest result per session.
+  const pendingUpdatesRef = React.useRef(new Map<string, ExtractionResult>())
+  const batchRef = React.useRef<Promise<void> | null>(null)
+
+  const flush = React.useCallback(async () => {
+    batchRef.current = null
+    const pending = Array.from(pendingUpdatesRef.current)
+    pendingUpdatesRef.current.clear()
+    await Promise.all(pending.map(([id, result]) => updateSessionResult(id, result)))
+  }, [])
+
+  /** Resolves once the batch holding this change is written; callers in one batch share its outcome. */
+  const update = React.useCallback(
+    (id: string, result: ExtractionResult) => {
+      pendingUpdatesRef.current.set(id, result)
+      setSessions((prev) => prev.map((session) => (session.id === id ? { ...session, result } : session)))
+      if (!batchRef.current) {
+        batchRef.current = new Promise((resolve) => window.setTimeout(resolve, UPDATE_DELAY)).then(flush)
+      }
+      return batchRef.current
+    },
+    [flush]
+  )
+
+  // Changes still waiting are written when the page is left or the component goes away.
+  React.useEffect(() => {
+    const flushPending = () => {
+      if (pendingUpdatesRef.current.size === 0) return
+      flush().catch((err) => console.error("Could not save changes to history:", err))
+    }
+    window.addEventListener("pagehide", flushPending)
+    return () => {
+      window.removeEventListener("pagehide", flushPending)
+      flushPending()
+    }
+  }, [flush])
+
+  const remove = React.useCallback(
+    async (id: string) => {
+      await deleteSession(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { sessions, storage, loading, available, save, update, remove, refresh }
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import * as React from "react"
+
+import { DEFAULT_REMINDER_DAYS } from "@/lib/export/ics"
+
+const STORAGE_KEY = "pdf-extractor:reminder-days"
+
+/** Days before an expiry that exported calendar events remind at, remembered across visits. */
+export function useReminderDays() {
+  const [days, setDays] = React.useState<number[]>(DEFAULT_REMINDER_DAYS)
+
+  React.useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY)
+      const stored: unknown = raw ? JSON.parse(raw) : null
+      // Anything but a list of day counts, e.g. edited by hand, leaves the default reminders.
+      if (Array.isArray(stored) && stored.every((days) => Number.isInteger(days) && days >= 0)) setDays(stored)
+    } catch {
+      // Storage disabled or not JSON; the default reminders apply.
+    }
+  }, [])
+
+  const update = React.useCallback((next: number[]) => {
+    setDays(next)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch {
+      // Storage full or disabled; the reminders still apply to this visit.
+    }
+  }, [])
+
+  return [days, update] as const
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import * as React from "react"
+
+import { BUILT_IN_PRESETS, readStoredPresets, type RenamePresets } from "@/lib/rename"
+
+const STORAGE_KEY = "pdf-extractor:rename-presets"
+
+/** Filename template presets and the default of each document type, kept in localStorage. */
+export function useRenamePresets() {
+  const [store, setStore] = React.useState<RenamePresets>(BUILT_IN_PRESETS)
+
+  React.useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY)
+      // Anything unreadable, e.g. from an older version or edited by hand, leaves the built-in presets.
+      const stored = raw ? readStoredPresets(JSON.parse(raw)) : null
+      if (stored) setStore(stored)
+    } catch {
+      // Storage disabled or not JSON; the built-in presets apply.
+    }
+  }, [])
+
+  const update = React.useCallback((next: RenamePresets) => {
+    setStore(next)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch {
+      // Storage full or disabled; the presets still apply until the page is closed.
+    }
+  }, [])
+
+  return { store, update }
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import * as React from "react"
+
+const STORAGE_KEY = "pdf-extractor:reviewer"
+
+/** The name stamped on review decisions, remembered across visits. */
+export function useReviewerName() {
+  const [name, setName] = React.useState("")
+
+  React.useEffect(() => {
+    try {
+      setName(window.localStorage.getItem(STORAGE_KEY) ?? "")
+    } catch {
+      // Storage disabled; the reviewer types their name each visit.
+    }
+  }, [])
+
+  const update = React.useCallback((next: string) => {
+    setName(next)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next.trim())
+    } catch {
+      // Storage full or disabled; the name still applies to this visit.
+    }
+  }, [])
+
+  return [name, update] as const
+}
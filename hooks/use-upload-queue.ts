@@ -0,0 +1,110 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  createEntryId,
+  entryKey,
+  hashFile,
+  isPdf,
+  queueReducer,
+  type QueueEntry,
+  type QueueEntryOptions,
+  type QueueEntryStatus,
+} from "@/lib/upload-queue"
+import { detectInPool } from "@/lib/workers/extraction-pool"
+
+export interface AddFilesResult {
+  added: number
+  duplicates: number
+  rejected: number
+}
+
+export function useUploadQueue() {
+  const [entries, dispatch] = React.useReducer(queueReducer, [])
+  const entriesRef = React.useRef(entries)
+  entriesRef.current = entries
+
+  // Detection reads each PDF on the worker pool, which bounds how many are open at once.
+  // Removing an entry cancels its detection.
+  const detectionsRef = React.useRef(new Map<string, AbortController>())
+
+  const detectTypes = React.useCallback((pending: QueueEntry[]) => {
+    pending.forEach(async (entry) => {
+      const controller = new AbortController()
+      detectionsRef.current.set(entry.id, controller)
+      try {
+        const detection = await detectInPool(entry.file, { signal: controller.signal })
+        dispatch({ type: "setDetection", id: entry.id, detection })
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.warn(`Could not read ${entry.file.name} for type detection:`, err)
+        dispatch({ type: "setDetection", id: entry.id, detection: null })
+      } finally {
+        detectionsRef.current.delete(entry.id)
+      }
+    })
+  }, [])
+
+  const cancelDetections = React.useCallback((ids: string[]) => {
+    ids.forEach((id) => detectionsRef.current.get(id)?.abort())
+  }, [])
+
+  const addFiles = React.useCallback(
+    async (files: FileList | File[], documentType: string): Promise<AddFilesResult> => {
+      const all = Array.from(files)
+      const pdfs = all.filter(isPdf)
+      const candidates: QueueEntry[] = await Promise.all(
+        pdfs.map(async (file) => ({
+          id: createEntryId(),
+          file,
+          hash: await hashFile(file),
+          status: "queued" as const,
+          options: { documentType, documentTypeSource: "default" as const },
+        }))
+      )
+
+      const seen = new Set(entriesRef.current.map(entryKey))
+      const fresh = candidates.filter((entry) => {
+        const key = entryKey(entry)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+
+      dispatch({ type: "add", entries: fresh })
+      detectTypes(fresh)
+      return {
+        added: fresh.length,
+        duplicates: candidates.length - fresh.length,
+        rejected: all.length - pdfs.length,
+      }
+    },
+    [detectTypes]
+  )
+
+  const remove = React.useCallback(
+    (id: string) => {
+      cancelDetections([id])
+      dispatch({ type: "remove", id })
+    },
+    [cancelDetections]
+  )
+  const move = React.useCallback((id: string, toIndex: number) => dispatch({ type: "move", id, toIndex }), [])
+  const clear = React.useCallback(() => {
+    cancelDetections(Array.from(detectionsRef.current.keys()))
+    dispatch({ type: "clear" })
+  }, [cancelDetections])
+  const setStatus = React.useCallback(
+    (ids: string[], status: QueueEntryStatus, error?: string) => dispatch({ type: "setStatus", ids, status, error }),
+    []
+  )
+  // Marks whichever of `ids` have not finished yet as cancelled.
+  const cancelPending = React.useCallback((ids: string[]) => dispatch({ type: "cancelPending", ids }), [])
+  const updateOptions = React.useCallback(
+    (ids: string[], options: Partial<QueueEntryOptions>) => dispatch({ type: "updateOptions", ids, options }),
+    []
+  )
+
+  return { entries, addFiles, remove, move, clear, setStatus, cancelPending, updateOptions }
+}
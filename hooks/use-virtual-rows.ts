@@ -0,0 +1,52 @@
+"use client"
+
+import * as React from "react"
+
+interface VirtualRowsOptions {
+  /** Every row must render at exactly this height, in px. */
+  rowHeight: number
+  /** Rows rendered beyond each edge of the viewport so fast scrolling does not flash blank space. */
+  overscan?: number
+}
+
+/**
+ * Windowing for a scrollable list of fixed-height rows. Attach `scrollRef` to
+ * the scrolling element and render rows `start` to `end` between spacers of
+ * `paddingTop` and `paddingBottom` px.
+ */
+export function useVirtualRows<T extends HTMLElement>(count: number, { rowHeight, overscan = 10 }: VirtualRowsOptions) {
+  const scrollRef = React.useRef<T>(null)
+  const [viewport, setViewport] = React.useState({ scrollTop: 0, height: 0 })
+
+  React.useEffect(() => {
+    const node = scrollRef.current
+    if (!node) return
+
+    // Coalesced into one state update per frame while scrolling.
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => setViewport({ scrollTop: node.scrollTop, height: node.clientHeight }))
+    }
+
+    update()
+    node.addEventListener("scroll", update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(node)
+    return () => {
+      cancelAnimationFrame(frame)
+      node.removeEventListener("scroll", update)
+      observer.disconnect()
+    }
+  }, [])
+
+  const start = Math.min(count, Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - overscan))
+  const end = Math.min(count, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + overscan)
+  return {
+    scrollRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+  }
+}
@@ -0,0 +1,85 @@
+import { HttpError, NetworkError, TimeoutError } from "./errors"
+import type { RetryPolicy } from "./client"
+
+export interface ChunkLimits {
+  maxFiles: number
+  maxBytes: number
+}
+
+// Small enough that one request finishes well inside the 60s extraction timeout.
+export const DEFAULT_CHUNK_LIMITS: ChunkLimits = { maxFiles: 10, maxBytes: 15 * 1024 * 1024 }
+
+/** Chunks submitted at once; the backend processes each request's files sequentially. */
+export const CHUNK_CONCURRENCY = 2
+
+/** Transient failures are retried per chunk, so one bad request does not sink the batch. */
+export const CHUNK_RETRY: Partial<RetryPolicy> = {
+  retries: 2,
+  delayMs: 1500,
+  backoff: 2,
+  retryOn: (error) =>
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    (error instanceof HttpError && (error.status >= 500 || error.status === 429)),
+}
+
+/**
+ * Splits items into consecutive chunks of at most `maxFiles` items and
+ * `maxBytes` bytes, keeping their order. An item larger than `maxBytes`
+ * gets a chunk of its own. Items with the same `keyOf` never share a chunk.
+ */
+export function planChunks<T>(
+  items: T[],
+  sizeOf: (item: T) => number,
+  limits = DEFAULT_CHUNK_LIMITS,
+  keyOf?: (item: T) => string
+): T[][] {
+  const chunks: T[][] = []
+  let current: T[] = []
+  let keys = new Set<string>()
+  let bytes = 0
+
+  items.forEach((item) => {
+    const size = sizeOf(item)
+    const key = keyOf?.(item)
+    const full = current.length >= limits.maxFiles || bytes + size > limits.maxBytes
+    if (current.length > 0 && (full || (key !== undefined && keys.has(key)))) {
+      chunks.push(current)
+      current = []
+      keys = new Set()
+      bytes = 0
+    }
+    current.push(item)
+    if (key !== undefined) keys.add(key)
+    bytes += size
+  })
+  if (current.length > 0) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Runs `task` over every input with at most `concurrency` in flight, starting
+ * them in order. Settles like `Promise.allSettled`, results in input order.
+ */
+export async function runWithConcurrency<T, R>(
+  inputs: T[],
+  task: (input: T, index: number) => Promise<R>,
+  concurrency = CHUNK_CONCURRENCY
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(inputs.length)
+  let next = 0
+
+  const lane = async () => {
+    while (next < inputs.length) {
+      const index = next++
+      try {
+        results[index] = { status: "fulfilled", value: await task(inputs[index], index) }
+      } catch (reason) {
+        results[index] = { status: "rejected", reason }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, lane))
+  return results
+}
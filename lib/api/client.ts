@@ -0,0 +1,210 @@
+import type { ZodType, ZodTypeDef } from "zod"
+import { ApiError, EmptyBodyError, HttpError, NetworkError, ResponseValidationError, TimeoutError } from "./errors"
+import {
+  documentTypesResponseSchema,
+  extractBatchResponseSchema,
+  extractResponseSchema,
+  healthResponseSchema,
+} from "./schemas"
+import type { DownloadedFile, ExtractParams } from "./types"
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one. */
+  retries: number
+  /** Delay before the first retry; multiplied by `backoff` for each further retry. */
+  delayMs: number
+  backoff: number
+  retryOn: (error: ApiError) => boolean
+}
+
+export type UploadProgressHandler = (loaded: number, total: number) => void
+
+export interface RequestOptions {
+  timeoutMs?: number
+  retry?: Partial<RetryPolicy>
+  signal?: AbortSignal
+  /** Switches the request to XHR, which unlike fetch reports upload progress. */
+  onUploadProgress?: UploadProgressHandler
+}
+
+export interface ApiClientConfig {
+  baseUrl: string
+  defaultTimeoutMs?: number
+}
+
+const NO_RETRY: RetryPolicy = {
+  retries: 0,
+  delayMs: 0,
+  backoff: 1,
+  retryOn: () => false,
+}
+
+// Generated files live in the backend's temp storage and may not be visible
+// to the worker serving the download yet, so 404s are worth another try.
+const DOWNLOAD_RETRY: Partial<RetryPolicy> = {
+  retries: 2,
+  delayMs: 2000,
+  backoff: 1.5,
+  retryOn: (error) => error instanceof NetworkError || (error instanceof HttpError && error.status === 404),
+}
+
+const NO_CACHE_HEADERS = {
+  "Cache-Control": "no-cache, no-store, must-revalidate",
+  Pragma: "no-cache",
+  Expires: "0",
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Minimal fetch look-alike over XHR for requests that need upload progress.
+ * Failures reject the same way fetch does (TypeError, or AbortError on abort).
+ */
+function fetchWithUploadProgress(url: string, init: RequestInit, onUploadProgress: UploadProgressHandler) {
+  return new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const signal = init.signal
+    const onAbort = () => xhr.abort()
+
+    xhr.open(init.method ?? "GET", url)
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value))
+    xhr.withCredentials = init.credentials === "include"
+    xhr.upload.addEventListener("progress", (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded, event.total)
+    })
+    xhr.addEventListener("load", () => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve(
+        new Response(xhr.status === 204 ? null : xhr.responseText, { status: xhr.status, statusText: xhr.statusText })
+      )
+    })
+    xhr.addEventListener("error", () => reject(new TypeError("Network request failed")))
+    xhr.addEventListener("abort", () => reject(new DOMException("The request was aborted", "AbortError")))
+
+    if (signal?.aborted) return xhr.abort()
+    signal?.addEventListener("abort", onAbort, { once: true })
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined)
+  })
+}
+
+export function createApiClient({ baseUrl, defaultTimeoutMs = 30000 }: ApiClientConfig) {
+  const request = async (path: string, init: RequestInit, options: RequestOptions = {}): Promise<Response> => {
+    const url = `${baseUrl}${path}`
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs
+    const policy: RetryPolicy = { ...NO_RETRY, ...options.retry }
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+      const onAbort = () => controller.abort()
+      // Also covers a cancel that landed while waiting to retry.
+      if (options.signal?.aborted) controller.abort()
+      options.signal?.addEventListener("abort", onAbort)
+
+      try {
+        let response: Response
+        try {
+          response = options.onUploadProgress
+            ? await fetchWithUploadProgress(url, { ...init, signal: controller.signal }, options.onUploadProgress)
+            : await fetch(url, { mode: "cors", ...init, signal: controller.signal })
+        } catch (err) {
+          // A caller-initiated abort is not a failure of the request itself.
+          if (options.signal?.aborted) throw err
+          if (controller.signal.aborted) throw new TimeoutError(url, timeoutMs)
+          throw new NetworkError(url, err)
+        }
+
+        if (!response.ok) {
+          throw new HttpError(url, response.status, await response.text().catch(() => response.statusText))
+        }
+        return response
+      } catch (err) {
+        if (!(err instanceof ApiError) || attempt >= policy.retries || !policy.retryOn(err)) throw err
+        await sleep(policy.delayMs * Math.pow(policy.backoff, attempt))
+      } finally {
+        clearTimeout(timeoutId)
+        options.signal?.removeEventListener("abort", onAbort)
+      }
+    }
+  }
+
+  const requestJson = async <T>(
+    path: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    init: RequestInit,
+    options?: RequestOptions,
+  ): Promise<T> => {
+    const response = await request(path, { ...init, headers: { Accept: "application/json", ...init.headers } }, options)
+    const url = response.url || `${baseUrl}${path}`
+    const text = await response.text()
+    if (!text.trim()) throw new EmptyBodyError(url)
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(text)
+    } catch {
+      throw new ResponseValidationError(url, ["body is not valid JSON"])
+    }
+
+    const parsed = schema.safeParse(payload)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      throw new ResponseValidationError(url, issues)
+    }
+    return parsed.data
+  }
+
+  const requestFile = async (path: string, filename: string, accept: string, timeoutMs: number): Promise<DownloadedFile> => {
+    const response = await request(
+      `${path}/${encodeURIComponent(filename)}`,
+      { method: "GET", credentials: "omit", headers: { Accept: accept, ...NO_CACHE_HEADERS } },
+      { timeoutMs, retry: DOWNLOAD_RETRY },
+    )
+    const blob = await response.blob()
+    if (blob.size === 0) throw new EmptyBodyError(response.url || `${baseUrl}${path}`)
+    return { blob, filename }
+  }
+
+  const buildForm = ({ files, documentType }: ExtractParams) => {
+    const formData = new FormData()
+    files.forEach((file) => formData.append("files", file))
+    formData.append("document_type", documentType)
+    return formData
+  }
+
+  const postForm = <T>(
+    path: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    formData: FormData,
+    { signal, onUploadProgress, retry }: ExtractParams
+  ) =>
+    requestJson(path, schema, { method: "POST", body: formData }, { timeoutMs: 60000, signal, onUploadProgress, retry })
+
+  return {
+    baseUrl,
+
+    health: () => requestJson("/health", healthResponseSchema, { method: "GET" }, { timeoutMs: 5000 }),
+
+    documentTypes: () =>
+      requestJson("/document-types", documentTypesResponseSchema, { method: "GET" }, { timeoutMs: 5000 }),
+
+    extract: (params: ExtractParams) =>
+      postForm("/extract", extractResponseSchema, buildForm(params), params),
+
+    extractBatch: (params: ExtractParams) =>
+      postForm("/extract-batch", extractBatchResponseSchema, buildForm(params), params),
+
+    downloadZip: (filename: string) =>
+      requestFile("/download-zip", filename, "application/zip, application/octet-stream, */*", 60000),
+
+    downloadExcel: (filename: string) =>
+      requestFile(
+        "/download-excel",
+        filename,
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/octet-stream, */*",
+        30000,
+      ),
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
@@ -0,0 +1,60 @@
+/**
+ * Base class for every failure raised by the API client, so callers can
+ * tell backend problems apart from bugs with a single `instanceof` check.
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly url: string) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+/** The request never reached the server (DNS, CORS, connection refused, ...). */
+export class NetworkError extends ApiError {
+  constructor(url: string, readonly cause?: unknown) {
+    super("Could not connect to the API server", url)
+    this.name = "NetworkError"
+  }
+}
+
+/** The request was aborted because it exceeded its timeout. */
+export class TimeoutError extends ApiError {
+  constructor(url: string, readonly timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, url)
+    this.name = "TimeoutError"
+  }
+}
+
+/** The server answered with a non-2xx status. */
+export class HttpError extends ApiError {
+  constructor(url: string, readonly status: number, readonly body: string) {
+    super(`HTTP ${status}: ${body || "No error details available"}`, url)
+    this.name = "HttpError"
+  }
+}
+
+/** The server answered 2xx but the payload was empty. */
+export class EmptyBodyError extends ApiError {
+  constructor(url: string) {
+    super("The server returned an empty response", url)
+    this.name = "EmptyBodyError"
+  }
+}
+
+/** The server answered 2xx but the payload does not match the expected schema. */
+export class ResponseValidationError extends ApiError {
+  constructor(url: string, readonly issues: string[]) {
+    super(`Unexpected response from the server: ${issues.slice(0, 3).join("; ")}`, url)
+    this.name = "ResponseValidationError"
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+/** Human-readable message for toasts, regardless of what was thrown. */
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message
+  return "Unknown error occurred"
+}
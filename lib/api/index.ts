@@ -0,0 +1,14 @@
+import { createApiClient } from "./client"
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || "https://fermanta-pdf-extractor-api.hf.space"
+
+export const apiClient = createApiClient({ baseUrl: API_URL })
+
+export { CHUNK_CONCURRENCY, CHUNK_RETRY, DEFAULT_CHUNK_LIMITS, planChunks, runWithConcurrency } from "./chunks"
+export type { ChunkLimits } from "./chunks"
+export { createApiClient } from "./client"
+export type { ApiClient, ApiClientConfig, RequestOptions, RetryPolicy, UploadProgressHandler } from "./client"
+export * from "./errors"
+export { findDownload, mergeExtractionResults, normalizeExtractionResponse } from "./normalize"
+export * from "./schemas"
+export * from "./types"
@@ -0,0 +1,88 @@
+import type { ExtractionResponse } from "./schemas"
+import type { DownloadLink, ExtractedData, ExtractionResult, ResultItem } from "./types"
+
+const filenameFromPath = (path: string) => path.split("/").pop() || path
+
+/**
+ * Maps any of the extraction endpoint payloads onto `ExtractionResult`.
+ *
+ * `/extract` reports per-file results, while `/extract-batch` only returns
+ * the extracted records (tagged with `Source_File`) and silently skips files
+ * that are not PDFs.
+ */
+export function normalizeExtractionResponse(response: ExtractionResponse, files: File[] = []): ExtractionResult {
+  const documentType = response.document_type
+  const base = {
+    timestamp: response.timestamp,
+    documentTypes: [documentType],
+    totalFiles: response.total_files,
+    processedFiles: response.processed_files,
+  }
+
+  if ("results" in response) {
+    return {
+      ...base,
+      failedFiles: response.failed_files,
+      items: response.results.map((result) => ({
+        filename: result.filename,
+        documentType: result.document_type ?? documentType,
+        status: result.status,
+        data: result.data ?? undefined,
+        error: result.error ?? undefined,
+      })),
+      renamedFiles: {},
+      downloads: [],
+    }
+  }
+
+  const items: ResultItem[] = response.extraction_data.map((data: ExtractedData, index) => ({
+    filename: data.Source_File || files[index]?.name || `File ${index + 1}`,
+    documentType,
+    status: "success",
+    data,
+  }))
+
+  const downloads: DownloadLink[] = [
+    {
+      kind: "excel",
+      documentType,
+      path: response.download_link,
+      filename: response.excel_filename || filenameFromPath(response.download_link),
+    },
+  ]
+
+  return {
+    ...base,
+    failedFiles: Math.max(0, response.total_files - response.processed_files),
+    items,
+    renamedFiles: {},
+    downloads,
+  }
+}
+
+/**
+ * Combines the results of several extraction calls (one per document type)
+ * into a single result. Items are ordered by `sourceOrder`, upload-queue
+ * entry ids, when given; filenames cannot order files that share a name.
+ */
+export function mergeExtractionResults(results: ExtractionResult[], sourceOrder: string[] = []): ExtractionResult {
+  const position = new Map(sourceOrder.map((id, index) => [id, index]))
+  const rank = (item: ResultItem) =>
+    (item.sourceId === undefined ? undefined : position.get(item.sourceId)) ?? Number.MAX_SAFE_INTEGER
+
+  return {
+    timestamp: results.reduce((latest, r) => (r.timestamp > latest ? r.timestamp : latest), ""),
+    documentTypes: Array.from(new Set(results.flatMap((r) => r.documentTypes))),
+    totalFiles: results.reduce((sum, r) => sum + r.totalFiles, 0),
+    processedFiles: results.reduce((sum, r) => sum + r.processedFiles, 0),
+    failedFiles: results.reduce((sum, r) => sum + r.failedFiles, 0),
+    // Array.prototype.sort is stable, so items of one file keep their relative order.
+    items: results.flatMap((r) => r.items).sort((a, b) => rank(a) - rank(b)),
+    renamedFiles: Object.assign({}, ...results.map((r) => r.renamedFiles)),
+    downloads: results.flatMap((r) => r.downloads),
+  }
+}
+
+export function findDownload(result: ExtractionResult, kind: DownloadLink["kind"]): DownloadLink | undefined {
+  return result.downloads.find((link) => link.kind === kind)
+}
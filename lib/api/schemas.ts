@@ -0,0 +1,58 @@
+import { z } from "zod"
+import { extractedRecordSchema } from "@/lib/document-types"
+
+// Every backend response goes through one of these before the UI sees it.
+// Unknown keys are stripped; missing or mistyped required keys fail loudly.
+
+const resultItemSchema = z.object({
+  filename: z.string(),
+  status: z.enum(["success", "error"]),
+  data: extractedRecordSchema.nullish(),
+  error: z.string().nullish(),
+  document_type: z.string().optional(),
+})
+
+const baseExtractionSchema = z.object({
+  success: z.boolean(),
+  timestamp: z.string(),
+  document_type: z.string(),
+  total_files: z.number().int().nonnegative(),
+  processed_files: z.number().int().nonnegative(),
+})
+
+export const healthResponseSchema = z.object({
+  status: z.string(),
+  timestamp: z.string(),
+  service: z.string().optional(),
+})
+
+export const documentTypeInfoSchema = z.object({
+  code: z.string().min(1),
+  name: z.string(),
+  description: z.string().default(""),
+})
+
+export const documentTypesResponseSchema = z.object({
+  supported_types: z.array(documentTypeInfoSchema),
+})
+
+/** `POST /extract` */
+export const extractResponseSchema = baseExtractionSchema.extend({
+  failed_files: z.number().int().nonnegative(),
+  results: z.array(resultItemSchema),
+})
+
+/** `POST /extract-batch` */
+export const extractBatchResponseSchema = baseExtractionSchema.extend({
+  extraction_data: z.array(extractedRecordSchema),
+  download_link: z.string(),
+  excel_filename: z.string(),
+  total_records: z.number().int().nonnegative().optional(),
+})
+
+export type HealthResponse = z.infer<typeof healthResponseSchema>
+export type DocumentTypesResponse = z.infer<typeof documentTypesResponseSchema>
+export type ExtractResponse = z.infer<typeof extractResponseSchema>
+export type ExtractBatchResponse = z.infer<typeof extractBatchResponseSchema>
+
+export type ExtractionResponse = ExtractResponse | ExtractBatchResponse
@@ -0,0 +1,73 @@
+import type { ExtractedRecord } from "@/lib/document-types"
+import type { RetryPolicy } from "./client"
+import type { DocumentTypesResponse } from "./schemas"
+
+export type ExtractedData = ExtractedRecord
+
+export type ReviewStatus = "pending" | "approved" | "needs-fix" | "rejected"
+
+export interface ReviewDecision {
+  status: Exclude<ReviewStatus, "pending">
+  reviewer: string
+  /** ISO timestamp of the decision. */
+  reviewedAt: string
+}
+
+export interface ResultItem {
+  filename: string
+  documentType: string
+  status: "success" | "error"
+  /** Upload-queue entry the record was read from; missing in sessions saved before it was recorded. */
+  sourceId?: string
+  data?: ExtractedData
+  error?: string
+  /** Corrections made in the results table, by field key. `data` keeps the extracted values. */
+  edits?: Record<string, string>
+  /** Second-person check before the record is used; undefined while pending. */
+  review?: ReviewDecision
+}
+
+export interface DownloadLink {
+  /** `zip` only appears in sessions saved while the server did the renaming. */
+  kind: "excel" | "zip"
+  documentType: string
+  /** Path relative to the API base URL, e.g. `/download-excel/<file>`. */
+  path: string
+  filename: string
+  size?: number
+  /** Set when a document type was submitted in several chunks, each with its own file. */
+  part?: { index: number; count: number }
+}
+
+/**
+ * Canonical shape of an extraction, whichever endpoint produced it.
+ * See `normalizeExtractionResponse`.
+ */
+export interface ExtractionResult {
+  timestamp: string
+  /** Every document type present in `items`, in submission order. */
+  documentTypes: string[]
+  totalFiles: number
+  processedFiles: number
+  failedFiles: number
+  items: ResultItem[]
+  /** Original filename -> renamed filename, from the server renaming of older sessions; now always empty. */
+  renamedFiles: Record<string, string>
+  downloads: DownloadLink[]
+}
+
+export type DocumentTypeInfo = DocumentTypesResponse["supported_types"][number]
+
+export interface ExtractParams {
+  files: File[]
+  documentType: string
+  signal?: AbortSignal
+  /** Reports bytes sent of the multipart body. */
+  onUploadProgress?: (loaded: number, total: number) => void
+  retry?: Partial<RetryPolicy>
+}
+
+export interface DownloadedFile {
+  blob: Blob
+  filename: string
+}
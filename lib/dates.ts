@@ -0,0 +1,19 @@
+const DMY_PATTERN = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/
+
+/**
+ * Parses the backend's `dd/mm/yyyy` (or `dd-mm-yyyy`) dates. Returns null for
+ * anything else, including impossible dates such as 31/02/2024.
+ */
+export function parseDmy(value: string | null | undefined): Date | null {
+  const match = value?.trim().match(DMY_PATTERN)
+  if (!match) return null
+  const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const date = new Date(year, month - 1, day)
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+/** Formats a date the way the extractors do, `dd/mm/yyyy`. */
+export function formatDmy(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`
+}
@@ -0,0 +1,40 @@
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_CODES, type DocumentTypeCode } from "./registry"
+
+export type DetectionConfidence = "high" | "medium" | "low"
+
+export interface DetectionResult {
+  code: DocumentTypeCode
+  /** 0..1, share of the type's signature weight found, reduced when a runner-up is close. */
+  score: number
+  confidence: DetectionConfidence
+  /** Raw matched weight per type, for debugging and tooltips. */
+  scores: Record<DocumentTypeCode, number>
+}
+
+const confidenceFor = (score: number): DetectionConfidence =>
+  score >= 0.6 ? "high" : score >= 0.3 ? "medium" : "low"
+
+/**
+ * Scores the text of a PDF against the signature phrases of every known
+ * document type. Returns null when nothing matched at all.
+ */
+export function detectDocumentType(text: string): DetectionResult | null {
+  const scores = {} as Record<DocumentTypeCode, number>
+  const ratios = DOCUMENT_TYPE_CODES.map((code) => {
+    const { signatures } = DOCUMENT_TYPES[code]
+    const total = signatures.reduce((sum, signature) => sum + signature.weight, 0)
+    const matched = signatures.reduce((sum, signature) => sum + (signature.pattern.test(text) ? signature.weight : 0), 0)
+    scores[code] = matched
+    return { code, matched, ratio: total ? matched / total : 0 }
+  }).sort((a, b) => b.matched - a.matched || b.ratio - a.ratio)
+
+  const [best, runnerUp] = ratios
+  if (!best || best.matched === 0) return null
+
+  // Types that share phrases (ITAS/ITK, Notifikasi/DKPTKA) are only told
+  // apart by the rest of their signatures; a near tie means low certainty.
+  const margin = runnerUp ? 1 - runnerUp.matched / best.matched : 1
+  const score = best.ratio * (0.5 + 0.5 * margin)
+
+  return { code: best.code, score, confidence: confidenceFor(score), scores }
+}
@@ -0,0 +1,4 @@
+export * from "./registry"
+export { detectDocumentType } from "./detect"
+export type { DetectionConfidence, DetectionResult } from "./detect"
+export { extractedRecordSchema } from "./schema"
@@ -0,0 +1,259 @@
+export type FieldDataType = "text" | "date" | "enum" | "email" | "phone" | "period"
+
+export interface FieldDefinition {
+  /** Key as emitted by the backend extractor. */
+  key: string
+  /** Column header shown in the table and in exports. */
+  label: string
+  type: FieldDataType
+  required?: boolean
+  /** Allowed values for `enum` fields. */
+  options?: readonly string[]
+  /** Free text with few distinct values in practice; filtered by picking values. */
+  facet?: boolean
+}
+
+/** A phrase whose presence in the PDF text suggests a document type. */
+export interface Signature {
+  pattern: RegExp
+  weight: number
+}
+
+export interface DocumentTypeDefinition {
+  code: string
+  name: string
+  description: string
+  /** Fields in display order. */
+  fields: readonly FieldDefinition[]
+  /** Used by `detectDocumentType`; empty for types only the backend knows. */
+  signatures: readonly Signature[]
+}
+
+const DOCUMENT_TYPE_FIELD = { key: "Jenis Dokumen", label: "Document Type", type: "text", required: true } as const
+
+const SKTT_FIELDS = [
+  { key: "Name", label: "Name", type: "text", required: true },
+  { key: "NIK", label: "NIK", type: "text", required: true },
+  { key: "Place of Birth", label: "Place of Birth", type: "text" },
+  { key: "Date of Birth", label: "Date of Birth", type: "date" },
+  { key: "Jenis Kelamin", label: "Gender", type: "enum", options: ["MALE", "FEMALE"] },
+  { key: "Nationality", label: "Nationality", type: "text", facet: true },
+  { key: "Occupation", label: "Occupation", type: "text" },
+  { key: "Address", label: "Address", type: "text" },
+  { key: "KITAS/KITAP", label: "KITAS/KITAP", type: "text" },
+  { key: "Passport Expiry", label: "Passport Expiry", type: "date" },
+  { key: "Date Issue", label: "Date Issue", type: "date" },
+  DOCUMENT_TYPE_FIELD,
+] as const satisfies readonly FieldDefinition[]
+
+const EVLN_FIELDS = [
+  { key: "Name", label: "Name", type: "text", required: true },
+  { key: "Place of Birth", label: "Place of Birth", type: "text" },
+  { key: "Date of Birth", label: "Date of Birth", type: "date" },
+  { key: "Passport No", label: "Passport No", type: "text", required: true },
+  { key: "Passport Expiry", label: "Passport Expiry", type: "date" },
+  { key: "Date Issue", label: "Date Issue", type: "date" },
+  DOCUMENT_TYPE_FIELD,
+] as const satisfies readonly FieldDefinition[]
+
+const ITAS_FIELDS = [
+  { key: "Name", label: "Name", type: "text", required: true },
+  { key: "Permit Number", label: "Permit Number", type: "text", required: true },
+  { key: "Place & Date of Birth", label: "Place & Date of Birth", type: "text" },
+  { key: "Passport Number", label: "Passport Number", type: "text", required: true },
+  { key: "Passport Expiry", label: "Passport Expiry", type: "date" },
+  { key: "Nationality", label: "Nationality", type: "text", facet: true },
+  { key: "Gender", label: "Gender", type: "enum", options: ["MALE", "FEMALE"] },
+  { key: "Address", label: "Address", type: "text" },
+  { key: "Occupation", label: "Occupation", type: "text" },
+  { key: "Guarantor", label: "Guarantor", type: "text" },
+  { key: "Stay Permit Expiry", label: "Stay Permit Expiry", type: "date" },
+  { key: "Date Issue", label: "Date Issue", type: "date" },
+  DOCUMENT_TYPE_FIELD,
+] as const satisfies readonly FieldDefinition[]
+
+const NOTIFIKASI_FIELDS = [
+  { key: "Nomor Keputusan", label: "Nomor Keputusan", type: "text", required: true },
+  { key: "Nama TKA", label: "Nama TKA", type: "text", required: true },
+  { key: "Tempat/Tanggal Lahir", label: "Tempat/Tanggal Lahir", type: "text" },
+  { key: "Kewarganegaraan", label: "Kewarganegaraan", type: "text", facet: true },
+  { key: "Alamat Tempat Tinggal", label: "Alamat Tempat Tinggal", type: "text" },
+  { key: "Nomor Paspor", label: "Nomor Paspor", type: "text", required: true },
+  { key: "Jabatan", label: "Jabatan", type: "text" },
+  { key: "Lokasi Kerja", label: "Lokasi Kerja", type: "text" },
+  { key: "Berlaku", label: "Berlaku", type: "period" },
+  { key: "Date Issue", label: "Date Issue", type: "date" },
+  DOCUMENT_TYPE_FIELD,
+] as const satisfies readonly FieldDefinition[]
+
+const DKPTKA_FIELDS = [
+  { key: "Nama Pemberi Kerja", label: "Nama Pemberi Kerja", type: "text", required: true },
+  { key: "Alamat", label: "Alamat", type: "text" },
+  { key: "No Telepon", label: "No Telepon", type: "phone" },
+  { key: "Email", label: "Email", type: "email" },
+  { key: "Nama TKA", label: "Nama TKA", type: "text", required: true },
+  { key: "Tempat/Tanggal Lahir", label: "Tempat/Tanggal Lahir", type: "text" },
+  { key: "Nomor Paspor", label: "Nomor Paspor", type: "text", required: true },
+  { key: "Kewarganegaraan", label: "Kewarganegaraan", type: "text", facet: true },
+  { key: "Jabatan", label: "Jabatan", type: "text" },
+  { key: "Kanim", label: "Kanim", type: "text", facet: true },
+  { key: "Lokasi Kerja", label: "Lokasi Kerja", type: "text" },
+  { key: "Kode Billing Pembayaran", label: "Kode Billing Pembayaran", type: "text" },
+  { key: "DKPTKA", label: "DKPTKA", type: "text" },
+  DOCUMENT_TYPE_FIELD,
+] as const satisfies readonly FieldDefinition[]
+
+type FieldValues<F extends readonly FieldDefinition[]> = {
+  [K in Exclude<F[number]["key"], "Jenis Dokumen">]?: string | null
+}
+
+type RecordOf<C extends string, F extends readonly FieldDefinition[]> = FieldValues<F> & {
+  "Jenis Dokumen": C
+  /** Added by the batch endpoints. */
+  Source_File?: string
+}
+
+export type SkttRecord = RecordOf<"SKTT", typeof SKTT_FIELDS>
+export type EvlnRecord = RecordOf<"EVLN", typeof EVLN_FIELDS>
+export type ItasRecord = RecordOf<"ITAS", typeof ITAS_FIELDS>
+export type ItkRecord = RecordOf<"ITK", typeof ITAS_FIELDS>
+export type NotifikasiRecord = RecordOf<"Notifikasi", typeof NOTIFIKASI_FIELDS>
+export type DkptkaRecord = RecordOf<"DKPTKA", typeof DKPTKA_FIELDS>
+
+/** A record of one of the document types this frontend knows about, discriminated on `Jenis Dokumen`. */
+export type DocumentRecord = SkttRecord | EvlnRecord | ItasRecord | ItkRecord | NotifikasiRecord | DkptkaRecord
+
+export type DocumentTypeCode = DocumentRecord["Jenis Dokumen"]
+
+/** A record of a type added on the backend after this frontend was built. */
+export interface UnknownDocumentRecord {
+  "Jenis Dokumen": string
+  Source_File?: string
+  [key: string]: string | null | undefined
+}
+
+export type ExtractedRecord = DocumentRecord | UnknownDocumentRecord
+
+export const DOCUMENT_TYPES: { readonly [C in DocumentTypeCode]: DocumentTypeDefinition & { code: C } } = {
+  SKTT: {
+    code: "SKTT",
+    name: "Surat Keterangan Tinggal Terbatas",
+    description: "Indonesian temporary residence permit",
+    fields: SKTT_FIELDS,
+    signatures: [
+      { pattern: /NIK\/Number of Population Identity/i, weight: 4 },
+      { pattern: /Nomor KITAP\/KITAS Number/i, weight: 3 },
+      { pattern: /Tempat\/Tgl Lahir/i, weight: 1 },
+      { pattern: /KEPALA DINAS/i, weight: 1 },
+    ],
+  },
+  EVLN: {
+    code: "EVLN",
+    name: "Exit Visa Luar Negeri",
+    description: "Exit visa for foreign nationals",
+    fields: EVLN_FIELDS,
+    signatures: [
+      { pattern: /Dear\s+(Mr|Ms|Mrs)\./i, weight: 3 },
+      { pattern: /Visa\s*Type/i, weight: 2 },
+      { pattern: /\bPassport No\b/i, weight: 1 },
+      { pattern: /\bVisa\b/i, weight: 1 },
+    ],
+  },
+  ITAS: {
+    code: "ITAS",
+    name: "Izin Tinggal Terbatas",
+    description: "Limited stay permit",
+    fields: ITAS_FIELDS,
+    signatures: [
+      { pattern: /PERMIT NUMBER/, weight: 2 },
+      { pattern: /STAY PERMIT EXPIRY/, weight: 2 },
+      { pattern: /LIMITED STAY PERMIT|IZIN TINGGAL TERBATAS|\bITAS\b/i, weight: 3 },
+      { pattern: /Guarantor/i, weight: 1 },
+    ],
+  },
+  ITK: {
+    code: "ITK",
+    name: "Izin Tinggal Kunjungan",
+    description: "Visit stay permit",
+    fields: ITAS_FIELDS,
+    signatures: [
+      { pattern: /PERMIT NUMBER/, weight: 2 },
+      { pattern: /STAY PERMIT EXPIRY/, weight: 2 },
+      { pattern: /VISIT STAY PERMIT|IZIN TINGGAL KUNJUNGAN|\bITK\b/i, weight: 3 },
+    ],
+  },
+  Notifikasi: {
+    code: "Notifikasi",
+    name: "Notifikasi TKA",
+    description: "Foreign worker notification",
+    fields: NOTIFIKASI_FIELDS,
+    signatures: [
+      { pattern: /Nama TKA/i, weight: 2 },
+      { pattern: /Nomor Keputusan|KEPUTUSAN/i, weight: 2 },
+      { pattern: /NOTIFIKASI/i, weight: 2 },
+      { pattern: /Alamat Tempat Tinggal/i, weight: 1 },
+      { pattern: /Pada tanggal/i, weight: 1 },
+    ],
+  },
+  DKPTKA: {
+    code: "DKPTKA",
+    name: "Dana Kompensasi Penggunaan TKA",
+    description: "Foreign worker compensation fund",
+    fields: DKPTKA_FIELDS,
+    signatures: [
+      { pattern: /Kode Billing Pembayaran/i, weight: 4 },
+      { pattern: /\bDKPTKA\b/i, weight: 2 },
+      { pattern: /Nama Pemberi Kerja/i, weight: 2 },
+      { pattern: /Nama TKA/i, weight: 1 },
+    ],
+  },
+}
+
+export const DOCUMENT_TYPE_CODES = Object.keys(DOCUMENT_TYPES) as DocumentTypeCode[]
+
+export function isDocumentTypeCode(code: string): code is DocumentTypeCode {
+  return Object.prototype.hasOwnProperty.call(DOCUMENT_TYPES, code)
+}
+
+const IGNORED_KEYS = new Set(["Jenis Dokumen", "Source_File"])
+
+/**
+ * Looks up a document type. Unknown codes get a generic definition whose
+ * fields are inferred from the keys of the given sample records.
+ */
+export function getDocumentTypeDefinition(
+  code: string,
+  samples: readonly ExtractedRecord[] = [],
+): DocumentTypeDefinition {
+  if (isDocumentTypeCode(code)) return DOCUMENT_TYPES[code]
+
+  const keys = new Set<string>()
+  samples.forEach((record) => Object.keys(record).forEach((key) => !IGNORED_KEYS.has(key) && keys.add(key)))
+  return {
+    code,
+    name: code,
+    description: "",
+    fields: [
+      ...Array.from(keys, (key): FieldDefinition => ({ key, label: key, type: "text" })),
+      DOCUMENT_TYPE_FIELD,
+    ],
+    signatures: [],
+  }
+}
+
+/** Reads a field as display text; missing values become an empty string. */
+export function getFieldValue(record: ExtractedRecord | undefined, key: string): string {
+  const value = (record as Record<string, unknown> | undefined)?.[key]
+  return value === null || value === undefined ? "" : String(value)
+}
+
+/** Case-insensitive substring match over the given fields. */
+export function recordMatches(
+  record: ExtractedRecord | undefined,
+  fields: readonly FieldDefinition[],
+  query: string,
+): boolean {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+  return fields.some((field) => getFieldValue(record, field.key).toLowerCase().includes(needle))
+}
@@ -0,0 +1,35 @@
+import { z, type ZodType, type ZodTypeDef } from "zod"
+import { isDocumentTypeCode, type DocumentTypeCode, type ExtractedRecord } from "./registry"
+
+const fieldValueSchema = z.string().nullish()
+
+// Every value of a record is a nullable string, whatever the field, so a record needs no
+// per-field shape; the checks below hold it to `ExtractedRecord`.
+const recordSchema = <C extends DocumentTypeCode>(code: C) =>
+  z
+    .object({ "Jenis Dokumen": z.literal(code), Source_File: z.string().optional() })
+    .catchall(fieldValueSchema)
+
+const knownRecordSchema = z.discriminatedUnion("Jenis Dokumen", [
+  recordSchema("SKTT"),
+  recordSchema("EVLN"),
+  recordSchema("ITAS"),
+  recordSchema("ITK"),
+  recordSchema("Notifikasi"),
+  recordSchema("DKPTKA"),
+])
+
+// Stops compiling when a document type is added to the registry but not to the union above.
+true satisfies DocumentTypeCode extends z.infer<typeof knownRecordSchema>["Jenis Dokumen"] ? true : never
+// Optional record fields accept any index signature, so the values are checked here instead.
+true satisfies z.infer<typeof knownRecordSchema> extends Record<string, string | null | undefined> ? true : never
+
+const unknownRecordSchema = z
+  .object({ "Jenis Dokumen": z.string().refine((code) => !isDocumentTypeCode(code)) })
+  .catchall(fieldValueSchema)
+
+/** Runtime counterpart of `ExtractedRecord`, derived from the registry. */
+export const extractedRecordSchema: ZodType<ExtractedRecord, ZodTypeDef, unknown> = z.union([
+  knownRecordSchema,
+  unknownRecordSchema,
+])
@@ -0,0 +1,237 @@
+import type { ResultItem } from "@/lib/api"
+import { parseDmy } from "@/lib/dates"
+import { getFieldValue, type DocumentTypeDefinition } from "@/lib/document-types"
+import type { ExtractionSession } from "@/lib/history"
+import { groupByDocumentType, getItemValue } from "@/lib/results"
+import { parsePeriod } from "@/lib/validation"
+import {
+  NAME_MATCH_THRESHOLD,
+  nameSimilarity,
+  normalizeName,
+  normalizePassport,
+  readPersonFacts,
+  sameFact,
+  type PersonAttribute,
+  type PersonFacts,
+} from "./match"
+
+/** One extracted record, with the history session it was found in. */
+export interface DossierDocument {
+  sessionId: string
+  /** ISO timestamp of the session. */
+  sessionCreatedAt: string
+  item: ResultItem
+  definition: DocumentTypeDefinition
+  facts: PersonFacts
+  /** Joined its profile on the name alone, because it has no usable passport number. */
+  matchedByName: boolean
+}
+
+export interface FactConflict {
+  attribute: PersonAttribute
+  /** Each distinct value and the documents stating it. */
+  values: { value: string; documents: DossierDocument[] }[]
+}
+
+export interface TimelineEvent {
+  date: Date
+  /** Label of the date field, e.g. "Stay Permit Expiry", or "Berlaku (start)". */
+  label: string
+  document: DossierDocument
+}
+
+export interface PersonProfile {
+  /** Stable across reloads: the passport number, or the normalized name for people without one. */
+  id: string
+  /** The name most documents agree on. */
+  name: string
+  passports: string[]
+  nationality: string
+  documents: DossierDocument[]
+  conflicts: FactConflict[]
+  timeline: TimelineEvent[]
+}
+
+export const ATTRIBUTE_LABELS: Record<PersonAttribute, string> = {
+  name: "Name",
+  passport: "Passport number",
+  birthDate: "Date of birth",
+  birthPlace: "Place of birth",
+  nationality: "Nationality",
+  gender: "Gender",
+}
+
+// Names vary in spelling and passports legitimately change, so only these are reported as conflicts.
+const CONFLICT_ATTRIBUTES: PersonAttribute[] = ["birthDate", "birthPlace", "nationality", "gender"]
+
+/**
+ * Identifies a record by what was read from it rather than by its filename,
+ * which scanners reuse ("scan.pdf") for unrelated workers. Corrections are
+ * left out, so a re-extracted file matches its earlier, possibly edited, copy.
+ */
+function contentKey({ definition, item }: Pick<DossierDocument, "definition" | "item">): string | null {
+  const values = definition.fields.map((field) => getFieldValue(item.data, field.key).trim())
+  // Blank records have nothing to tell them apart, so they are all kept.
+  return values.some(Boolean) ? [definition.code, ...values].join("\u0000") : null
+}
+
+/**
+ * Every successful record of every session, newest session first. A file
+ * extracted again in a later session only counts once, as its latest version.
+ */
+export function collectDocuments(sessions: readonly ExtractionSession[]): DossierDocument[] {
+  const seen = new Set<string>()
+  return [...sessions]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .flatMap((session) =>
+      groupByDocumentType(session.result.items, session.result.documentTypes).flatMap(({ definition, items }) =>
+        items.map((item) => ({
+          sessionId: session.id,
+          sessionCreatedAt: session.createdAt,
+          item,
+          definition,
+          facts: readPersonFacts(item, definition),
+          matchedByName: false,
+        }))
+      )
+    )
+    .filter((document) => {
+      const key = contentKey(document)
+      if (key === null) return true
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/** Most frequent value; ties go to the longest, which tends to be the least truncated. */
+function mostCommon(values: readonly string[]): string {
+  const counts = new Map<string, number>()
+  values.filter(Boolean).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)[0]?.[0] ?? ""
+}
+
+function findConflicts(documents: readonly DossierDocument[]): FactConflict[] {
+  return CONFLICT_ATTRIBUTES.flatMap((attribute) => {
+    const values: FactConflict["values"] = []
+    documents.forEach((document) => {
+      const value = document.facts[attribute]
+      if (!value) return
+      const existing = values.find((candidate) => sameFact(attribute, candidate.value, value))
+      if (existing) existing.documents.push(document)
+      else values.push({ value, documents: [document] })
+    })
+    return values.length > 1 ? [{ attribute, values }] : []
+  })
+}
+
+// Birth dates are facts about the person, not events in their paperwork.
+const TIMELINE_EXCLUDED = new Set(["Date of Birth"])
+
+function buildTimeline(documents: readonly DossierDocument[]): TimelineEvent[] {
+  const events = documents.flatMap(({ definition, item }, index) =>
+    definition.fields.flatMap((field): TimelineEvent[] => {
+      if (TIMELINE_EXCLUDED.has(field.key)) return []
+      const value = getItemValue(item, field.key)
+      const document = documents[index]
+      if (field.type === "date") {
+        const date = parseDmy(value)
+        return date ? [{ date, label: field.label, document }] : []
+      }
+      if (field.type === "period") {
+        const period = parsePeriod(value)
+        return period
+          ? [
+              { date: period.start, label: `${field.label} (start)`, document },
+              { date: period.end, label: `${field.label} (end)`, document },
+            ]
+          : []
+      }
+      return []
+    })
+  )
+  // The same passport expiry is printed on several documents; keep it once.
+  const seen = new Set<string>()
+  return events
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .filter((event) => {
+      const key = `${event.date.getTime()}\u0000${event.label}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+// The cluster may already disagree with itself; the document only needs to agree with one of its dates.
+function birthDatesDiffer(cluster: readonly DossierDocument[], document: DossierDocument): boolean {
+  const date = document.facts.birthDate
+  const known = cluster.map((other) => other.facts.birthDate).filter(Boolean)
+  return !!date && known.length > 0 && !known.some((other) => sameFact("birthDate", other, date))
+}
+
+/**
+ * Groups documents into the people they belong to. Documents sharing a
+ * normalized passport number are one person. A document without a usable
+ * passport number joins the person whose name matches best, if the match
+ * reaches `NAME_MATCH_THRESHOLD` and their birth dates do not disagree;
+ * otherwise it starts a person of its own. Names never merge two different
+ * passport numbers.
+ */
+export function consolidate(documents: readonly DossierDocument[]): PersonProfile[] {
+  const clusters: DossierDocument[][] = []
+  const byPassport = new Map<string, DossierDocument[]>()
+
+  documents.forEach((document) => {
+    const passport = normalizePassport(document.facts.passport)
+    if (!passport) return
+    const cluster = byPassport.get(passport)
+    if (cluster) {
+      cluster.push(document)
+      return
+    }
+    const created = [document]
+    byPassport.set(passport, created)
+    clusters.push(created)
+  })
+
+  documents
+    .filter((document) => !normalizePassport(document.facts.passport))
+    .forEach((document) => {
+      const name = document.facts.name
+      let best: { cluster: DossierDocument[]; score: number } | null = null
+      if (name) {
+        for (const cluster of clusters) {
+          if (birthDatesDiffer(cluster, document)) continue
+          const score = Math.max(...cluster.map((other) => nameSimilarity(other.facts.name, name)))
+          if (score >= NAME_MATCH_THRESHOLD && (!best || score > best.score)) best = { cluster, score }
+        }
+      }
+      if (best) best.cluster.push({ ...document, matchedByName: true })
+      else clusters.push([document])
+    })
+
+  const ids = new Set<string>()
+  const uniqueId = (base: string) => {
+    let id = base
+    for (let n = 2; ids.has(id); n++) id = `${base}:${n}`
+    ids.add(id)
+    return id
+  }
+
+  const profiles = clusters.map((cluster): PersonProfile => {
+    const passports = Array.from(
+      new Set(cluster.map((document) => normalizePassport(document.facts.passport)).filter(Boolean))
+    )
+    const name = mostCommon(cluster.map((document) => document.facts.name))
+    return {
+      id: uniqueId(passports[0] ? `passport:${passports[0]}` : `name:${normalizeName(name) || cluster[0].item.filename}`),
+      name,
+      passports,
+      nationality: mostCommon(cluster.map((document) => document.facts.nationality.toUpperCase())),
+      documents: cluster,
+      conflicts: findConflicts(cluster),
+      timeline: buildTimeline(cluster),
+    }
+  })
+  return profiles.sort((a, b) => a.name.localeCompare(b.name))
+}
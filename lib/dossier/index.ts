@@ -0,0 +1,18 @@
+export {
+  ATTRIBUTE_LABELS,
+  collectDocuments,
+  consolidate,
+  type DossierDocument,
+  type FactConflict,
+  type PersonProfile,
+  type TimelineEvent,
+} from "./consolidate"
+export {
+  NAME_MATCH_THRESHOLD,
+  nameSimilarity,
+  normalizeName,
+  normalizePassport,
+  readPersonFacts,
+  type PersonAttribute,
+  type PersonFacts,
+} from "./match"
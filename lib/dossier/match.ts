@@ -0,0 +1,126 @@
+import type { ResultItem } from "@/lib/api"
+import { formatDmy, parseDmy } from "@/lib/dates"
+import type { DocumentTypeDefinition } from "@/lib/document-types"
+import { getItemValue } from "@/lib/results"
+
+/** What a document says about the person it belongs to. */
+export interface PersonFacts {
+  name: string
+  passport: string
+  /** `dd/mm/yyyy`, also when it came from a combined place-and-date field. */
+  birthDate: string
+  birthPlace: string
+  nationality: string
+  gender: string
+}
+
+export type PersonAttribute = keyof PersonFacts
+
+/** The same fact under each document type's field name, in order of preference. */
+const ATTRIBUTE_FIELDS: Record<PersonAttribute, readonly string[]> = {
+  name: ["Name", "Nama TKA"],
+  passport: ["Passport No", "Passport Number", "Nomor Paspor"],
+  birthDate: ["Date of Birth"],
+  birthPlace: ["Place of Birth"],
+  nationality: ["Nationality", "Kewarganegaraan"],
+  gender: ["Jenis Kelamin", "Gender"],
+}
+
+// ITAS, ITK, Notifikasi and DKPTKA put place and date of birth in one field, e.g. "BEIJING, 01/02/1980".
+const COMBINED_BIRTH_FIELDS = ["Place & Date of Birth", "Tempat/Tanggal Lahir"]
+const EMBEDDED_DATE = /\d{1,2}[/-]\d{1,2}[/-]\d{4}/
+
+export function readPersonFacts(item: ResultItem, definition: DocumentTypeDefinition): PersonFacts {
+  const has = (key: string) => definition.fields.some((field) => field.key === key)
+  const read = (keys: readonly string[]) =>
+    keys
+      .filter(has)
+      .map((key) => getItemValue(item, key).trim())
+      .find(Boolean) ?? ""
+
+  const facts: PersonFacts = {
+    name: read(ATTRIBUTE_FIELDS.name),
+    passport: read(ATTRIBUTE_FIELDS.passport),
+    birthDate: read(ATTRIBUTE_FIELDS.birthDate),
+    birthPlace: read(ATTRIBUTE_FIELDS.birthPlace),
+    nationality: read(ATTRIBUTE_FIELDS.nationality),
+    gender: read(ATTRIBUTE_FIELDS.gender),
+  }
+
+  const combined = read(COMBINED_BIRTH_FIELDS)
+  const embedded = combined.match(EMBEDDED_DATE)?.[0]
+  if (!facts.birthDate && embedded) facts.birthDate = embedded
+  if (!facts.birthPlace && combined) {
+    facts.birthPlace = combined.replace(EMBEDDED_DATE, "").replace(/[\s,/]+$/, "").trim()
+  }
+  const birthDate = parseDmy(facts.birthDate)
+  if (birthDate) facts.birthDate = formatDmy(birthDate)
+  return facts
+}
+
+/** Passport numbers compared without spaces, dashes or case. Too short to be real means unknown. */
+export function normalizePassport(value: string): string {
+  const normalized = value.toUpperCase().replace(/[^A-Z0-9]/g, "")
+  return normalized.length >= 5 ? normalized : ""
+}
+
+const TITLES = new Set(["MR", "MRS", "MS", "MISS", "DR", "TN", "NY", "SDR"])
+
+/** Upper-case name tokens without accents, punctuation or honorifics. */
+export function nameTokens(value: string): string[] {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token && !TITLES.has(token))
+}
+
+export const normalizeName = (value: string) => nameTokens(value).join(" ")
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const stringSimilarity = (a: string, b: string) =>
+  a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1)
+
+/** Names with at least this similarity are taken to be the same person. */
+export const NAME_MATCH_THRESHOLD = 0.85
+
+/**
+ * Similarity of two person names from 0 to 1. Word order does not matter,
+ * small OCR slips are tolerated, and a name of two or more words found within
+ * a longer one ("LI WEI" in "LI WEI MING") counts as a match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const [x, y] = [nameTokens(a), nameTokens(b)]
+  if (x.length === 0 || y.length === 0) return 0
+  const whole = stringSimilarity([...x].sort().join(" "), [...y].sort().join(" "))
+  const [short, long] = x.length <= y.length ? [x, y] : [y, x]
+  const covered = short.filter((token) => long.some((other) => stringSimilarity(token, other) >= 0.8)).length
+  // A single shared word, usually a family name, is not enough on its own.
+  const contained = short.length >= 2 && covered === short.length ? 0.9 : 0
+  return Math.max(whole, contained)
+}
+
+/** Values compared the way a reviewer would: dates by day, text without case or extra spaces. */
+export function sameFact(attribute: PersonAttribute, a: string, b: string): boolean {
+  if (attribute === "birthDate") {
+    const [x, y] = [parseDmy(a), parseDmy(b)]
+    if (x && y) return x.getTime() === y.getTime()
+  }
+  if (attribute === "name") return nameSimilarity(a, b) >= NAME_MATCH_THRESHOLD
+  if (attribute === "passport") return normalizePassport(a) === normalizePassport(b)
+  const normalize = (value: string) => value.toUpperCase().replace(/\s+/g, " ").trim()
+  return normalize(a) === normalize(b)
+}
@@ -0,0 +1,134 @@
+import { parseDmy } from "@/lib/dates"
+import type { DossierDocument, PersonProfile } from "@/lib/dossier"
+import { getItemValue } from "@/lib/results"
+import { parsePeriod } from "@/lib/validation"
+
+export type ExpiryKind = "passport" | "stay-permit" | "notifikasi"
+
+export const EXPIRY_KIND_LABELS: Record<ExpiryKind, string> = {
+  passport: "Passport",
+  "stay-permit": "Stay permit",
+  notifikasi: "Notifikasi",
+}
+
+export type ExpiryBucket = "overdue" | "within-30" | "within-90" | "later"
+
+export const EXPIRY_BUCKETS: readonly { bucket: ExpiryBucket; label: string }[] = [
+  { bucket: "overdue", label: "Overdue" },
+  { bucket: "within-30", label: "Within 30 days" },
+  { bucket: "within-90", label: "Within 90 days" },
+  { bucket: "later", label: "Later" },
+]
+
+export interface Expiry {
+  /** Stable key: person, kind and date. */
+  id: string
+  kind: ExpiryKind
+  date: Date
+  /** Whole days from today; negative once expired. */
+  daysLeft: number
+  bucket: ExpiryBucket
+  person: PersonProfile
+  /** The document the date was read from; the most recently extracted one when several state it. */
+  document: DossierDocument
+  company: string
+  nationality: string
+  /** What the expiry belongs to: the permit number, Nomor Keputusan or passport number. */
+  reference: string
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export function daysUntil(date: Date, today: Date): number {
+  return Math.round((startOfDay(date).getTime() - startOfDay(today).getTime()) / DAY)
+}
+
+export function bucketFor(daysLeft: number): ExpiryBucket {
+  if (daysLeft < 0) return "overdue"
+  if (daysLeft < 30) return "within-30"
+  return daysLeft < 90 ? "within-90" : "later"
+}
+
+const readField = (document: DossierDocument, key: string) =>
+  document.definition.fields.some((field) => field.key === key) ? getItemValue(document.item, key).trim() : ""
+
+/** The dates compliance watches, by the kind of expiry they mark. */
+function readExpiries(document: DossierDocument): { kind: ExpiryKind; date: Date }[] {
+  const read = (key: string) => readField(document, key)
+  const found: { kind: ExpiryKind; date: Date | null | undefined }[] = [
+    { kind: "passport", date: parseDmy(read("Passport Expiry")) },
+    { kind: "stay-permit", date: parseDmy(read("Stay Permit Expiry")) },
+    { kind: "notifikasi", date: parsePeriod(read("Berlaku"))?.end },
+  ]
+  return found.flatMap(({ kind, date }) => (date ? [{ kind, date }] : []))
+}
+
+// ITAS and ITK name the sponsor as Guarantor; DKPTKA names the employer.
+const COMPANY_FIELDS = ["Nama Pemberi Kerja", "Guarantor"]
+
+const companyOf = (document: DossierDocument) =>
+  COMPANY_FIELDS.map((key) => readField(document, key)).find(Boolean) ?? ""
+
+const REFERENCE_FIELDS: Record<ExpiryKind, string | null> = {
+  passport: null,
+  "stay-permit": "Permit Number",
+  notifikasi: "Nomor Keputusan",
+}
+
+const referenceOf = (kind: ExpiryKind, document: DossierDocument) => {
+  const key = REFERENCE_FIELDS[kind]
+  return key ? readField(document, key) : document.facts.passport.toUpperCase()
+}
+
+/**
+ * Every expiry date of every person, soonest first. A date printed on several
+ * of a person's documents, such as the passport expiry, is listed once. The
+ * company comes from the document itself or, failing that, from another of
+ * the person's documents.
+ */
+export function collectExpiries(profiles: readonly PersonProfile[], today = new Date()): Expiry[] {
+  const expiries = profiles.flatMap((person) => {
+    const personCompany = person.documents.map(companyOf).find(Boolean) ?? ""
+    const byKey = new Map<string, Expiry>()
+    // Documents are ordered newest session first, so the first one stating a date is kept.
+    person.documents.forEach((document) =>
+      readExpiries(document).forEach(({ kind, date }) => {
+        const id = `${person.id}|${kind}|${date.getTime()}`
+        if (byKey.has(id)) return
+        const daysLeft = daysUntil(date, today)
+        byKey.set(id, {
+          id,
+          kind,
+          date,
+          daysLeft,
+          bucket: bucketFor(daysLeft),
+          person,
+          document,
+          company: companyOf(document) || personCompany,
+          nationality: document.facts.nationality.toUpperCase() || person.nationality,
+          // SKTT states the passport expiry but not the number, which another document may have.
+          reference: referenceOf(kind, document) || (kind === "passport" ? person.passports[0] ?? "" : ""),
+        })
+      })
+    )
+    return Array.from(byKey.values())
+  })
+  return expiries.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+export interface ExpiryFilters {
+  documentType?: string
+  company?: string
+  nationality?: string
+}
+
+export function filterExpiries(expiries: readonly Expiry[], filters: ExpiryFilters): Expiry[] {
+  return expiries.filter(
+    (expiry) =>
+      (!filters.documentType || expiry.document.definition.code === filters.documentType) &&
+      (!filters.company || expiry.company === filters.company) &&
+      (!filters.nationality || expiry.nationality === filters.nationality)
+  )
+}
@@ -0,0 +1,22 @@
+import type { ExportTable } from "./table"
+
+// Excel only detects UTF-8 in a CSV by its byte order mark.
+const BOM = "\uFEFF"
+
+// A cell starting with one of these is evaluated as a formula by spreadsheet apps.
+const FORMULA_TRIGGERS = /^[=+\-@\t\r]/
+
+/**
+ * Quotes a field per RFC 4180 and defuses formula injection by prefixing
+ * risky values with an apostrophe, which spreadsheets show as plain text.
+ */
+export function escapeCsvField(value: string): string {
+  const safe = FORMULA_TRIGGERS.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) || safe !== safe.trim() ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/** RFC 4180 CSV (CRLF line breaks) with a UTF-8 BOM. */
+export function buildCsv({ headers, rows }: ExportTable): Blob {
+  const lines = [headers, ...rows].map((row) => row.map(escapeCsvField).join(","))
+  return new Blob([BOM + lines.join("\r\n") + "\r\n"], { type: "text/csv;charset=utf-8" })
+}
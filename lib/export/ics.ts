@@ -0,0 +1,166 @@
+import { EXPIRY_KIND_LABELS, type Expiry } from "@/lib/expiries"
+import { getItemValue } from "@/lib/results"
+
+/** Reminders offered until the user picks their own, in days before the expiry. */
+export const DEFAULT_REMINDER_DAYS = [90, 60, 30]
+
+export interface IcsOptions {
+  /** One alarm per entry, this many days before the expiry. */
+  reminderDays: readonly number[]
+  /** DTSTAMP of every event; defaults to now. */
+  now?: Date
+}
+
+const PRODID = "-//PDF Extractor Pro//Permit Expiries//EN"
+const UID_DOMAIN = "pdf-extractor"
+
+// RFC 5545 §3.3.11: backslash, semicolon and comma are escaped, newlines become "\n".
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545 §3.1),
+ * continuing with CRLF and a space, without splitting a UTF-8 character.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ""
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards their 75 octets.
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ""
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+// All-day events use floating dates, so an expiry stays on its day in every time zone.
+const formatDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+
+// "2024-05-01T08:30:00.000Z" becomes "20240501T083000Z".
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+
+const slug = (value: string) =>
+  value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+
+// Numbers that identify the document itself, for expiries without a permit or passport number.
+const DOCUMENT_NUMBER_FIELDS = ["KITAS/KITAP", "NIK", "DKPTKA", "Kode Billing Pembayaran"]
+
+// Profile ids are assigned when dossiers are built and may differ next time, so
+// only what the document states goes into a UID.
+function documentKey(expiry: Expiry): string {
+  const { definition, item } = expiry.document
+  const number = DOCUMENT_NUMBER_FIELDS.filter((key) => definition.fields.some((field) => field.key === key))
+    .map((key) => getItemValue(item, key).trim())
+    .find(Boolean)
+  // Without any number the worker's name keeps two people's same-day expiries apart.
+  return [definition.code, number || expiry.person.name || item.filename, formatDate(expiry.date)].map(slug).join("-")
+}
+
+/**
+ * Derived from the permit or passport number rather than the date, so importing
+ * a newer export updates the event (for instance after a corrected date)
+ * instead of adding a second one. A renewed permit or passport has a new
+ * number and so becomes a new event. A passport is the same event whichever
+ * document stated its expiry. Without such a number, the document type, the
+ * document's own number and the expiry date are used instead.
+ */
+export function expiryUid(expiry: Expiry): string {
+  if (!expiry.reference) return `${expiry.kind}-${documentKey(expiry)}@${UID_DOMAIN}`
+  const scope = expiry.kind === "passport" ? "" : `${slug(expiry.document.definition.code)}-`
+  return `${expiry.kind}-${scope}${slug(expiry.reference)}@${UID_DOMAIN}`
+}
+
+/** "ITAS expiry — LI WEI (2C21AB1234)"; passports are named as such whatever document stated them. */
+export function expirySummary(expiry: Expiry): string {
+  const what = expiry.kind === "passport" ? EXPIRY_KIND_LABELS.passport : expiry.document.definition.code
+  const name = expiry.person.name || "Unnamed"
+  return `${what} expiry \u2014 ${name}${expiry.reference ? ` (${expiry.reference})` : ""}`
+}
+
+function describe(expiry: Expiry): string {
+  return [
+    `${EXPIRY_KIND_LABELS[expiry.kind]} of ${expiry.person.name || "an unnamed worker"}`,
+    expiry.person.passports.length > 0 && `Passport: ${expiry.person.passports.join(", ")}`,
+    expiry.nationality && `Nationality: ${expiry.nationality}`,
+    expiry.company && `Company: ${expiry.company}`,
+    `Source: ${expiry.document.definition.code} ${expiry.document.item.filename}`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+}
+
+function eventLines(expiry: Expiry, { reminderDays, now = new Date() }: IcsOptions): string[] {
+  const end = new Date(expiry.date.getFullYear(), expiry.date.getMonth(), expiry.date.getDate() + 1)
+  const summary = expirySummary(expiry)
+  const alarms = Array.from(new Set(reminderDays.filter((days) => Number.isInteger(days) && days >= 0)))
+    .sort((a, b) => b - a)
+    .flatMap((days) => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:-P${days}D`,
+      `DESCRIPTION:${escapeText(days === 0 ? summary : `${summary} in ${days} days`)}`,
+      "END:VALARM",
+    ])
+  return [
+    "BEGIN:VEVENT",
+    `UID:${expiryUid(expiry)}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;VALUE=DATE:${formatDate(expiry.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(describe(expiry))}`,
+    `CATEGORIES:${escapeText(EXPIRY_KIND_LABELS[expiry.kind])}`,
+    "TRANSP:TRANSPARENT",
+    ...alarms,
+    "END:VEVENT",
+  ]
+}
+
+/**
+ * An RFC 5545 calendar with one all-day event per expiry. When two entries
+ * share a UID, such as a passport expiry stated differently on two documents,
+ * the one from the most recently extracted document wins.
+ */
+export function buildIcs(expiries: readonly Expiry[], options: IcsOptions): Blob {
+  const byUid = new Map<string, Expiry>()
+  expiries.forEach((expiry) => {
+    const uid = expiryUid(expiry)
+    const existing = byUid.get(uid)
+    if (!existing || expiry.document.sessionCreatedAt > existing.document.sessionCreatedAt) byUid.set(uid, expiry)
+  })
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Permit expiries",
+    ...Array.from(byUid.values()).flatMap((expiry) => eventLines(expiry, options)),
+    "END:VCALENDAR",
+  ]
+  return new Blob([lines.map(foldLine).join("\r\n") + "\r\n"], { type: "text/calendar;charset=utf-8" })
+}
+
+/** Reads a list such as "90, 60, 30" into whole, non-negative day counts. */
+export function parseReminderDays(value: string): number[] {
+  return value
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((days) => Number.isInteger(days) && days >= 0)
+}
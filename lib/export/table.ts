@@ -0,0 +1,30 @@
+import { getItemValue, type ResultGroup } from "@/lib/results"
+
+/**
+ * How a column is written to typed formats such as XLSX. Only `No` is
+ * numeric: NIKs and passport numbers stay text so leading zeros survive.
+ */
+export type ExportCellType = "number" | "text" | "date"
+
+export interface ExportTable {
+  headers: string[]
+  types: ExportCellType[]
+  rows: string[][]
+}
+
+/** Header and rows for one document type, with the user's corrections applied. */
+export function buildExportTable({ definition, items }: ResultGroup): ExportTable {
+  return {
+    headers: ["No", "Filename", ...definition.fields.map((field) => field.label)],
+    types: [
+      "number",
+      "text",
+      ...definition.fields.map((field): ExportCellType => (field.type === "date" ? "date" : "text")),
+    ],
+    rows: items.map((item, index) => [
+      String(index + 1),
+      item.filename,
+      ...definition.fields.map((field) => getItemValue(item, field.key)),
+    ]),
+  }
+}
@@ -0,0 +1,172 @@
+import { parseDmy } from "@/lib/dates"
+import { createZip } from "@/lib/zip"
+import type { ExportTable } from "./table"
+
+export interface XlsxSheet {
+  name: string
+  table: ExportTable
+}
+
+// Characters XML 1.0 cannot carry at all, e.g. stray control codes from PDF text.
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g
+
+const escapeXml = (value: string) =>
+  value
+    .replace(INVALID_XML, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+/** A1-style column letters: 0 -> A, 25 -> Z, 26 -> AA. */
+export function columnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Days since Excel's 1900 epoch (counting its phantom 29/02/1900), from a local calendar date.
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30)
+const toExcelSerial = (date: Date) =>
+  Math.round((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - EXCEL_EPOCH) / 86_400_000)
+
+// Style indexes into `cellXfs` in STYLES.
+const STYLE = { default: 0, header: 1, date: 2, text: 3 } as const
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE9E3F5"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+
+const inlineString = (ref: string, value: string, style: number) =>
+  `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+
+function cellXml(ref: string, value: string, type: ExportTable["types"][number]): string {
+  if (!value) return ""
+  if (type === "number" && /^-?\d+(\.\d+)?$/.test(value)) return `<c r="${ref}"><v>${value}</v></c>`
+  if (type === "date") {
+    const date = parseDmy(value)
+    // Unparseable dates are kept as typed so nothing is lost.
+    if (date) return `<c r="${ref}" s="${STYLE.date}"><v>${toExcelSerial(date)}</v></c>`
+  }
+  return inlineString(ref, value, STYLE.text)
+}
+
+// Width in characters of the longest value, within sensible bounds.
+function columnWidths({ headers, rows }: ExportTable): number[] {
+  return headers.map((header, column) => {
+    const longest = rows.reduce((max, row) => Math.max(max, (row[column] ?? "").length), header.length)
+    return Math.min(60, Math.max(8, longest + 2))
+  })
+}
+
+function sheetXml(table: ExportTable): string {
+  const { headers, types, rows } = table
+  const lastColumn = columnName(Math.max(0, headers.length - 1))
+  const lastRow = rows.length + 1
+
+  const cols = columnWidths(table)
+    .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+    .join("")
+  const header = `<row r="1">${headers
+    .map((value, column) => inlineString(`${columnName(column)}1`, value, STYLE.header))
+    .join("")}</row>`
+  const body = rows
+    .map((row, index) => {
+      const r = index + 2
+      return `<row r="${r}">${row.map((value, column) => cellXml(`${columnName(column)}${r}`, value, types[column])).join("")}</row>`
+    })
+    .join("")
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<dimension ref="A1:${lastColumn}${lastRow}"/>
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="15"/>
+<cols>${cols}</cols>
+<sheetData>${header}${body}</sheetData>
+<autoFilter ref="A1:${lastColumn}${lastRow}"/>
+</worksheet>`
+}
+
+/** Excel sheet names: at most 31 characters, none of []:*?/\, unique in the workbook. */
+function sheetNames(names: string[]): string[] {
+  const used = new Set<string>()
+  return names.map((raw) => {
+    const base = raw.replace(/[[\]:*?/\\]/g, "_").slice(0, 31) || "Sheet"
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)}_${n}`
+    used.add(name.toLowerCase())
+    return name
+  })
+}
+
+/** An Office Open XML workbook with one sheet per table, frozen header row and autofilter. */
+export function buildXlsx(sheets: readonly XlsxSheet[]): Blob {
+  const names = sheetNames(sheets.map((sheet) => sheet.name))
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+<definedNames>${sheets
+    .map(({ table }, i) => {
+      const ref = `$A$1:$${columnName(Math.max(0, table.headers.length - 1))}$${table.rows.length + 1}`
+      const sheet = `'${names[i].replace(/'/g, "''")}'`
+      return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">${escapeXml(`${sheet}!${ref}`)}</definedName>`
+    })
+    .join("")}</definedNames>
+</workbook>`
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets
+  .map(
+    (_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+  )
+  .join("\n")}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets
+  .map(
+    (_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  )
+  .join("\n")}
+</Types>`
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+
+  const zip = createZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRels },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    { name: "xl/styles.xml", data: STYLES },
+    ...sheets.map(({ table }, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(table) })),
+  ])
+  return new Blob([zip], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+}
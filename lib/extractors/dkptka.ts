@@ -0,0 +1,69 @@
+import type { DkptkaRecord } from "@/lib/document-types"
+
+const collapse = (value: string) => value.trim().replace(/\s+/g, " ")
+
+/** First capture group with whitespace collapsed; empty matches become null. */
+function safeExtract(text: string, pattern: RegExp): string | null {
+  const match = text.match(pattern)
+  return match?.[1] ? collapse(match[1]) || null : null
+}
+
+function cleanExtractedText(value: string | null): string | null {
+  if (!value) return null
+  return collapse(value).replace(/["'\n\r\t]+/g, " ").trim() || null
+}
+
+const COMPANY_PATTERNS = [/Nama\s+Pemberi\s+Kerja\s*:\s*([^\n]+)/i, /([A-Z][A-Z\s]*PT\.?[A-Z\s]*)\s*(?=\n.*Alamat)/i]
+
+const ADDRESS_PATTERNS = [
+  /Alamat\s*:\s*([\s\S]*?)(?=\n\s*\d+\.\s*Nomor\s+Telepon|\n\s*3\.|$)/i,
+  /Alamat\s*:\s*([\s\S]*?)(?=Nomor\s+Telepon|Email|$)/i,
+]
+
+function extractBillingCode(text: string): string | null {
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes("Kode Billing Pembayaran")) continue
+    const match = lines.slice(i + 1, i + 4).join(" ").match(/(\d{12,})/)
+    if (match) return match[1].trim()
+  }
+  return null
+}
+
+/** Port of `extract_dkptka` in main.py. */
+export function extractDkptka(text: string): DkptkaRecord {
+  let company: string | null = null
+  for (const pattern of COMPANY_PATTERNS) {
+    company = safeExtract(text, pattern)
+    if (company) {
+      company = cleanExtractedText(company)
+      break
+    }
+  }
+
+  let address: string | null = null
+  for (const pattern of ADDRESS_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      address = collapse(match[1].trim().replace(/\n\s*/g, " "))
+      break
+    }
+  }
+
+  return {
+    "Nama Pemberi Kerja": company,
+    Alamat: cleanExtractedText(address),
+    "No Telepon": safeExtract(text, /Nomor\s+Telepon\s*:\s*([0-9\-+$\s]+)/i),
+    Email: safeExtract(text, /Email\s*:\s*([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i),
+    "Nama TKA": cleanExtractedText(safeExtract(text, /Nama\s+TKA\s*:\s*([^\n]+)/i)),
+    "Tempat/Tanggal Lahir": cleanExtractedText(safeExtract(text, /Tempat.*?Lahir\s*:\s*([^\n]+)/i)),
+    "Nomor Paspor": safeExtract(text, /Nomor\s+Paspor\s*:\s*([A-Z0-9]+)/i),
+    Kewarganegaraan: cleanExtractedText(safeExtract(text, /Kewarganegaraan\s*:\s*([^\n]+)/i)),
+    Jabatan: cleanExtractedText(safeExtract(text, /Jabatan\s*:\s*([^\n]+)/i)),
+    Kanim: cleanExtractedText(safeExtract(text, /Kanim.*?:\s*([^\n]+)/i)),
+    "Lokasi Kerja": cleanExtractedText(safeExtract(text, /Lokasi\s+Kerja\s*:\s*([^\n]+)/i)),
+    "Kode Billing Pembayaran": extractBillingCode(text),
+    DKPTKA: cleanExtractedText(safeExtract(text, /DKPTKA.*?:\s*(US\$[^\n]+)/i)),
+    "Jenis Dokumen": "DKPTKA",
+  }
+}
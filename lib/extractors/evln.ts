@@ -0,0 +1,60 @@
+import type { EvlnRecord } from "@/lib/document-types"
+import { cleanText, formatDate } from "./helpers"
+
+const DATE_PATTERN = /(\d{2}\/\d{2}\/\d{4}|\d{2}-\d{2}-\d{4})/
+
+const ISSUE_PATTERNS = [
+  /(?:Date\s+of\s+Issue|Issue\s+Date|Issued\s+on|Tanggal\s+Penerbitan)\s*:?\s*(\d{1,2}[/-]\d{1,2}[/-]\d{4})/i,
+  /(?:Issued|Diterbitkan)\s*:?\s*(\d{1,2}[/-]\d{1,2}[/-]\d{4})/i,
+]
+
+/** Port of `extract_evln` in main.py. */
+export function extractEvln(text: string): EvlnRecord {
+  const data = {
+    Name: "",
+    "Place of Birth": "",
+    "Date of Birth": "",
+    "Passport No": "",
+    "Passport Expiry": "",
+    "Date Issue": "",
+    "Jenis Dokumen": "EVLN" as const,
+  }
+
+  const lines = text.split("\n")
+
+  // The letter opens with "Dear Mr./Ms." followed by the holder's name on its own line.
+  const greetingIndex = lines.findIndex((line) => /Dear\s+(Mr\.|Ms\.|Sir|Madam)?/i.test(line))
+  if (greetingIndex >= 0 && greetingIndex + 1 < lines.length) {
+    const candidate = lines[greetingIndex + 1].trim()
+    if (candidate.length > 3 && candidate.length < 50) data.Name = cleanText(candidate, true)
+  }
+
+  lines.forEach((line) => {
+    if (!data.Name && /\bName\b|\bNama\b/i.test(line)) {
+      const parts = line.split(":")
+      if (parts.length > 1) data.Name = cleanText(parts[1], true)
+    } else if (/\bPlace of Birth\b|\bTempat Lahir\b/i.test(line)) {
+      const parts = line.split(":")
+      if (parts.length > 1) data["Place of Birth"] = cleanText(parts[1].trim().replace(/\s*Visa\s*Type\s*.*/, ""), true)
+    } else if (/\bDate of Birth\b|\bTanggal Lahir\b/i.test(line)) {
+      const match = line.match(DATE_PATTERN)
+      if (match) data["Date of Birth"] = formatDate(match[1])
+    } else if (/\bPassport No\b/i.test(line)) {
+      const match = line.match(/\b([A-Z0-9]+)\b/)
+      if (match) data["Passport No"] = match[1]
+    } else if (/\bPassport Expiry\b/i.test(line)) {
+      const match = line.match(DATE_PATTERN)
+      if (match) data["Passport Expiry"] = formatDate(match[1])
+    }
+  })
+
+  for (const pattern of ISSUE_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      data["Date Issue"] = formatDate(match[1])
+      break
+    }
+  }
+
+  return data
+}
@@ -0,0 +1,30 @@
+/** Port of `clean_text` in main.py. */
+export function cleanText(text: string | null | undefined, isNameOrPob = false): string {
+  if (text === null || text === undefined) return ""
+  let cleaned = text.replace(/Reference No|Payment Receipt No|Jenis Kelamin|Kewarganegaraan|Pekerjaan|Alamat/g, "")
+  if (isNameOrPob) cleaned = cleaned.replace(/\./g, "")
+  cleaned = cleaned.replace(/[^A-Za-z0-9\s,./-]/g, "").trim()
+  return cleaned.split(/\s+/).filter(Boolean).join(" ")
+}
+
+/** Port of `format_date`: `dd-mm-yyyy` and `dd/mm/yyyy` become `dd/mm/yyyy`, anything else is kept. */
+export function formatDate(value: string | null | undefined): string {
+  if (!value) return ""
+  const match = value.match(/(\d{2})[-/](\d{2})[-/](\d{4})/)
+  return match ? `${match[1]}/${match[2]}/${match[3]}` : value
+}
+
+/** Port of `split_birth_place_date`: "JAKARTA, 01-02-1990" -> ["JAKARTA", "01/02/1990"]. */
+export function splitBirthPlaceDate(text: string | null | undefined): [string | null | undefined, string | null] {
+  if (text) {
+    const parts = text.split(", ")
+    if (parts.length === 2) return [parts[0].trim(), formatDate(parts[1])]
+  }
+  return [text, null]
+}
+
+/** First capture group of `pattern` in `text`, or null. */
+export function matchGroup(text: string, pattern: RegExp, group = 1): string | null {
+  const match = text.match(pattern)
+  return match?.[group] ?? null
+}
@@ -0,0 +1,7 @@
+export { EXTRACTORS, extractRecord, hasLocalExtractor, type Extractor } from "./registry"
+export { extractLocally, type LocalSource } from "./local"
+export { extractDkptka } from "./dkptka"
+export { extractEvln } from "./evln"
+export { extractItas, extractItk } from "./itas"
+export { extractNotifikasi } from "./notifikasi"
+export { extractSktt } from "./sktt"
@@ -0,0 +1,60 @@
+import type { ItasRecord, ItkRecord } from "@/lib/document-types"
+import { formatDate, matchGroup } from "./helpers"
+
+const MONTHS: Record<string, string> = {
+  January: "01",
+  February: "02",
+  March: "03",
+  April: "04",
+  May: "05",
+  June: "06",
+  July: "07",
+  August: "08",
+  September: "09",
+  October: "10",
+  November: "11",
+  December: "12",
+}
+
+const trimmed = (value: string | null) => value?.trim() ?? null
+
+function extractDateIssue(text: string): string | null {
+  // e.g. "Jakarta, 5 March 2024"
+  const match = text.match(/([A-Za-z]+),\s*(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})/)
+  if (match) {
+    const [, , day, month, year] = match
+    return formatDate(`${day.padStart(2, "0")}/${MONTHS[month] ?? month}/${year}`)
+  }
+  const fallback = text.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{4})/)
+  return fallback ? formatDate(fallback[0]) : null
+}
+
+/** Port of `extract_itas` in main.py. */
+export function extractItas(text: string): ItasRecord {
+  const placeDateOfBirth = text.match(/Place \/ Date of Birth\s*.*:\s*([A-Za-z\s]+)\s*\/\s*([\d-]+)/)
+  const stayPermitExpiry = matchGroup(text, /STAY PERMIT EXPIRY\s*:\s*([\d/]+)/)
+  const passportExpiry = matchGroup(text, /Passport Expiry\s*: ([\d-]+)/)
+
+  return {
+    Name: trimmed(matchGroup(text, /([A-Z\s]+)\nPERMIT NUMBER/)),
+    "Permit Number": matchGroup(text, /PERMIT NUMBER\s*:\s*([A-Z0-9-]+)/),
+    "Stay Permit Expiry": stayPermitExpiry ? formatDate(stayPermitExpiry) : null,
+    "Place & Date of Birth": placeDateOfBirth
+      ? `${placeDateOfBirth[1].trim()}, ${formatDate(placeDateOfBirth[2].trim())}`
+      : null,
+    "Passport Number": matchGroup(text, /Passport Number\s*: ([A-Z0-9]+)/),
+    "Passport Expiry": passportExpiry ? formatDate(passportExpiry) : null,
+    Nationality: matchGroup(text, /Nationality\s*: ([A-Z]+)/),
+    Gender: matchGroup(text, /Gender\s*: ([A-Z]+)/),
+    Address: trimmed(matchGroup(text, /Address\s*:\s*(.+)/)),
+    Occupation: trimmed(matchGroup(text, /Occupation\s*:\s*(.+)/)),
+    Guarantor: trimmed(matchGroup(text, /Guarantor\s*:\s*(.+)/)),
+    "Date Issue": extractDateIssue(text),
+    "Jenis Dokumen": "ITAS",
+  }
+}
+
+/** Port of `extract_itk`: same layout as ITAS. */
+export function extractItk(text: string): ItkRecord {
+  return { ...extractItas(text), "Jenis Dokumen": "ITK" }
+}
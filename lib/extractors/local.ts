@@ -0,0 +1,81 @@
+import type { ExtractionResult, ResultItem } from "@/lib/api"
+import { describeError } from "@/lib/api"
+import { extractInPool } from "@/lib/workers/extraction-pool"
+
+export interface LocalSource {
+  /** Recorded on the item as `sourceId`. */
+  id?: string
+  file: File
+  /** Cancels just this file. */
+  signal?: AbortSignal
+}
+
+export interface LocalExtractionOptions {
+  /** Cancels every file that has not finished yet. */
+  signal?: AbortSignal
+  /** Called as each file finishes, with its index in `sources` and the result so far. */
+  onItem?: (item: ResultItem, index: number, partial: ExtractionResult) => void
+}
+
+function linkSignals(signals: (AbortSignal | undefined)[]): AbortSignal {
+  const controller = new AbortController()
+  signals.forEach((signal) => {
+    if (signal?.aborted) controller.abort(signal.reason)
+    else signal?.addEventListener("abort", () => controller.abort(signal.reason), { once: true })
+  })
+  return controller.signal
+}
+
+function toResult(documentType: string, items: ResultItem[]): ExtractionResult {
+  const processedFiles = items.filter((item) => item.status === "success").length
+  return {
+    timestamp: new Date().toISOString(),
+    documentTypes: [documentType],
+    totalFiles: items.length,
+    processedFiles,
+    failedFiles: items.length - processedFiles,
+    items,
+    renamedFiles: {},
+    downloads: [],
+  }
+}
+
+/**
+ * Browser-side counterpart of `/extract`: reads each PDF's text layer and
+ * runs the ported extractor on the worker pool, producing the same
+ * `ExtractionResult` as the API. Cancelled files are left out of the result,
+ * and there are no server-generated downloads in this mode.
+ */
+export async function extractLocally(
+  sources: LocalSource[],
+  documentType: string,
+  { signal, onItem }: LocalExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const finished: (ResultItem | undefined)[] = new Array(sources.length)
+  const snapshot = () => toResult(documentType, finished.filter((item): item is ResultItem => !!item))
+
+  await Promise.all(
+    sources.map(async ({ id, file, signal: fileSignal }, index) => {
+      const cancelled = linkSignals([signal, fileSignal])
+      let item: ResultItem
+      try {
+        const record = await extractInPool(file, documentType, { signal: cancelled })
+        item = {
+          filename: file.name,
+          documentType,
+          status: "success",
+          sourceId: id,
+          data: { ...record, Source_File: file.name },
+        }
+      } catch (err) {
+        if (cancelled.aborted) return
+        console.error(`Local extraction failed for ${file.name}:`, err)
+        item = { filename: file.name, documentType, status: "error", sourceId: id, error: describeError(err) }
+      }
+      finished[index] = item
+      onItem?.(item, index, snapshot())
+    })
+  )
+
+  return snapshot()
+}
@@ -0,0 +1,62 @@
+import type { NotifikasiRecord } from "@/lib/document-types"
+import { formatDate, matchGroup } from "./helpers"
+
+const MONTHS: Record<string, string> = {
+  januari: "01",
+  februari: "02",
+  maret: "03",
+  april: "04",
+  mei: "05",
+  juni: "06",
+  juli: "07",
+  agustus: "08",
+  september: "09",
+  oktober: "10",
+  november: "11",
+  desember: "12",
+}
+
+const VALIDITY_PATTERNS = [
+  /Berlaku\s*:?\s*(\d{2}[-/]\d{2}[-/]\d{4})\s*(?:s\.?d\.?|sampai dengan)?\s*(\d{2}[-/]\d{2}[-/]\d{4})/i,
+  /Tanggal Berlaku\s*:?\s*(\d{2}[-/]\d{2}[-/]\d{4})\s*s\.?d\.?\s*(\d{2}[-/]\d{2}[-/]\d{4})/i,
+]
+
+function extractDateIssue(text: string): string {
+  const named = text.match(
+    /Pada tanggal\s*:\s*(\d{1,2})\s+(Januari|Februari|Maret|April|Mei|Juni|Juli|Agustus|September|Oktober|November|Desember)\s+(\d{4})/i
+  )
+  if (named) {
+    const [, day, month, year] = named
+    return `${day.padStart(2, "0")}/${MONTHS[month.toLowerCase()] ?? "01"}/${year}`
+  }
+  const numeric = matchGroup(text, /Pada tanggal\s*:\s*(\d{1,2}[-/]\d{1,2}[-/]\d{4})/i)
+  return numeric ? formatDate(numeric) : ""
+}
+
+/** Port of `extract_notifikasi` in main.py. */
+export function extractNotifikasi(text: string): NotifikasiRecord {
+  const find = (pattern: RegExp) => matchGroup(text, pattern)?.trim() ?? ""
+
+  let validity = ""
+  for (const pattern of VALIDITY_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      validity = `${formatDate(match[1])} - ${formatDate(match[2])}`
+      break
+    }
+  }
+
+  return {
+    "Nomor Keputusan": find(/NOMOR\s+([A-Z0-9./-]+)/i),
+    "Nama TKA": find(/Nama TKA\s*:\s*(.*)/i),
+    "Tempat/Tanggal Lahir": find(/Tempat\/Tanggal Lahir\s*:\s*(.*)/i),
+    Kewarganegaraan: find(/Kewarganegaraan\s*:\s*(.*)/i),
+    "Alamat Tempat Tinggal": find(/Alamat Tempat Tinggal\s*:\s*(.*)/i),
+    "Nomor Paspor": find(/Nomor Paspor\s*:\s*(.*)/i),
+    Jabatan: find(/Jabatan\s*:\s*(.*)/i),
+    "Lokasi Kerja": find(/Lokasi Kerja\s*:\s*(.*)/i),
+    Berlaku: validity,
+    "Date Issue": extractDateIssue(text),
+    "Jenis Dokumen": "Notifikasi",
+  }
+}
@@ -0,0 +1,32 @@
+import type { DocumentTypeCode, ExtractedRecord } from "@/lib/document-types"
+import { extractDkptka } from "./dkptka"
+import { extractEvln } from "./evln"
+import { extractItas, extractItk } from "./itas"
+import { extractNotifikasi } from "./notifikasi"
+import { extractSktt } from "./sktt"
+
+export type Extractor = (text: string) => ExtractedRecord
+
+/**
+ * TypeScript ports of the backend extractors, keyed by document type. Keep
+ * these in step with `main.py` so both modes produce the same records.
+ */
+export const EXTRACTORS: { readonly [C in DocumentTypeCode]: Extractor } = {
+  SKTT: extractSktt,
+  EVLN: extractEvln,
+  ITAS: extractItas,
+  ITK: extractItk,
+  Notifikasi: extractNotifikasi,
+  DKPTKA: extractDkptka,
+}
+
+export function hasLocalExtractor(code: string): code is DocumentTypeCode {
+  return Object.prototype.hasOwnProperty.call(EXTRACTORS, code)
+}
+
+/** Runs the extractor for `code` over PDF text. Throws for types only the backend knows. */
+export function extractRecord(code: string, text: string): ExtractedRecord {
+  if (!hasLocalExtractor(code)) throw new Error(`No local extractor for document type ${code}`)
+  return EXTRACTORS[code](text)
+}
+
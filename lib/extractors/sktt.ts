@@ -0,0 +1,40 @@
+import type { SkttRecord } from "@/lib/document-types"
+import { cleanText, formatDate, matchGroup, splitBirthPlaceDate } from "./helpers"
+
+/** Port of `extract_sktt` in main.py. */
+export function extractSktt(text: string): SkttRecord {
+  const nik = matchGroup(text, /NIK\/Number of Population Identity\s*:\s*(\d+)/)
+  const name = matchGroup(text, /Nama\/Name\s*:\s*([\w\s]+)/)
+  const gender = matchGroup(text, /Jenis Kelamin\/Sex\s*:\s*(MALE|FEMALE)/)
+  const birthPlaceDate = matchGroup(text, /Tempat\/Tgl Lahir\s*:\s*([\w\s,0-9-]+)/)
+  const nationality = matchGroup(text, /Kewarganegaraan\/Nationality\s*:\s*([\w\s]+)/)
+  const occupation = matchGroup(text, /Pekerjaan\/Occupation\s*:\s*([\w\s]+)/)
+  const address = matchGroup(text, /Alamat\/Address\s*:\s*([\w\s,./-]+)/)
+  const kitasKitap = matchGroup(text, /Nomor KITAP\/KITAS Number\s*:\s*([\w-]+)/)
+  const expiryDate = matchGroup(text, /Berlaku Hingga s.d\/Expired date\s*:\s*([\d-]+)/)
+
+  // The issue date sits on the line above the signatory, e.g. "BADUNG, 01-02-2024".
+  const lines = text.trim().split(/\r?\n/)
+  let dateIssue: string | null = null
+  const signatoryIndex = lines.findIndex((line) => line.toUpperCase().includes("KEPALA DINAS"))
+  if (signatoryIndex > 0) {
+    dateIssue = matchGroup(lines[signatoryIndex - 1], /([A-Z\s]+),\s*(\d{2}-\d{2}-\d{4})/, 2)
+  }
+
+  const [birthPlace, birthDate] = birthPlaceDate ? splitBirthPlaceDate(birthPlaceDate) : [null, null]
+
+  return {
+    NIK: nik,
+    Name: name ? cleanText(name, true) : null,
+    "Jenis Kelamin": gender,
+    "Place of Birth": birthPlace ? cleanText(birthPlace, true) : null,
+    "Date of Birth": birthDate,
+    Nationality: nationality ? cleanText(nationality) : null,
+    Occupation: occupation ? cleanText(occupation) : null,
+    Address: address ? cleanText(address) : null,
+    "KITAS/KITAP": kitasKitap ? cleanText(kitasKitap) : null,
+    "Passport Expiry": expiryDate ? formatDate(expiryDate) : null,
+    "Date Issue": dateIssue ? formatDate(dateIssue) : null,
+    "Jenis Dokumen": "SKTT",
+  }
+}
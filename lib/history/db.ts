@@ -0,0 +1,56 @@
+const DB_NAME = "pdf-extractor"
+const DB_VERSION = 1
+
+export const SESSIONS_STORE = "sessions"
+/** Original PDFs live apart from the sessions so listing history never loads blobs. */
+export const FILES_STORE = "session-files"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/** Wraps an IDBRequest in a promise. */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Resolves once the transaction commits, so callers know the write is durable. */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("Transaction aborted", "AbortError"))
+  })
+}
+
+export function openHistoryDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available"))
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt")
+      }
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE, { keyPath: "sessionId" })
+      }
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer tab upgrade the schema instead of blocking it.
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
@@ -0,0 +1,13 @@
+export {
+  deleteSession,
+  estimateStorage,
+  getSessionFiles,
+  getSessionSourceFile,
+  listSessions,
+  saveSession,
+  sessionMatches,
+  updateSessionResult,
+  type ExtractionSession,
+  type SessionFile,
+  type StorageUsage,
+} from "./sessions"
@@ -0,0 +1,134 @@
+import type { ExtractionResult, ResultItem } from "@/lib/api"
+import { isSourceOf } from "@/lib/results"
+import { FILES_STORE, openHistoryDb, promisifyRequest, SESSIONS_STORE, transactionDone } from "./db"
+
+/** A completed extraction as kept in history. */
+export interface ExtractionSession {
+  id: string
+  /** ISO timestamp of when the session was saved. */
+  createdAt: string
+  documentTypes: string[]
+  filenames: string[]
+  result: ExtractionResult
+  /** Number of original PDFs stored alongside; 0 when they were not kept. */
+  fileCount: number
+}
+
+/** An original PDF kept with a session, under the upload id its records refer to as `sourceId`. */
+export interface SessionFile {
+  sourceId: string
+  file: File
+}
+
+interface StoredFiles {
+  sessionId: string
+  /** `sourceId` is missing in sessions saved before it was recorded. */
+  files: { sourceId?: string; name: string; type: string; lastModified: number; blob: Blob }[]
+}
+
+export interface StorageUsage {
+  usage: number
+  quota: number
+}
+
+const createSessionId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+export async function saveSession(result: ExtractionResult, files: SessionFile[] = []): Promise<ExtractionSession> {
+  const session: ExtractionSession = {
+    id: createSessionId(),
+    createdAt: new Date().toISOString(),
+    documentTypes: result.documentTypes,
+    filenames: Array.from(new Set(result.items.map((item) => item.filename))),
+    result,
+    fileCount: files.length,
+  }
+
+  const db = await openHistoryDb()
+  const transaction = db.transaction([SESSIONS_STORE, FILES_STORE], "readwrite")
+  transaction.objectStore(SESSIONS_STORE).put(session)
+  if (files.length > 0) {
+    const stored: StoredFiles = {
+      sessionId: session.id,
+      files: files.map(({ sourceId, file }) => ({
+        sourceId,
+        name: file.name,
+        type: file.type,
+        lastModified: file.lastModified,
+        blob: file,
+      })),
+    }
+    transaction.objectStore(FILES_STORE).put(stored)
+  }
+  await transactionDone(transaction)
+  return session
+}
+
+/** Replaces the stored result of a session, e.g. after corrections in the results table. */
+export async function updateSessionResult(id: string, result: ExtractionResult): Promise<void> {
+  const db = await openHistoryDb()
+  const transaction = db.transaction(SESSIONS_STORE, "readwrite")
+  const done = transactionDone(transaction)
+  const store = transaction.objectStore(SESSIONS_STORE)
+  const session = await promisifyRequest(store.get(id) as IDBRequest<ExtractionSession | undefined>)
+  if (session) store.put({ ...session, result })
+  await done
+}
+
+/** All sessions, newest first. */
+export async function listSessions(): Promise<ExtractionSession[]> {
+  const db = await openHistoryDb()
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index("createdAt")
+  const sessions = await promisifyRequest(index.getAll() as IDBRequest<ExtractionSession[]>)
+  return sessions.reverse()
+}
+
+async function readStoredFiles(id: string): Promise<StoredFiles["files"]> {
+  const db = await openHistoryDb()
+  const stored = await promisifyRequest(
+    db.transaction(FILES_STORE).objectStore(FILES_STORE).get(id) as IDBRequest<StoredFiles | undefined>
+  )
+  return stored?.files ?? []
+}
+
+const toFile = ({ name, type, lastModified, blob }: StoredFiles["files"][number]) =>
+  new File([blob], name, { type, lastModified })
+
+export async function getSessionFiles(id: string): Promise<File[]> {
+  return (await readStoredFiles(id)).map(toFile)
+}
+
+/** The kept PDF a record of the session was read from; null when the PDFs were not kept. */
+export async function getSessionSourceFile(id: string, item: ResultItem): Promise<File | null> {
+  const stored = (await readStoredFiles(id)).find((file) => isSourceOf(item, { id: file.sourceId, name: file.name }))
+  return stored ? toFile(stored) : null
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openHistoryDb()
+  const transaction = db.transaction([SESSIONS_STORE, FILES_STORE], "readwrite")
+  transaction.objectStore(SESSIONS_STORE).delete(id)
+  transaction.objectStore(FILES_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+/** Origin-wide usage and quota, or null where the Storage API is missing. */
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
+
+/** Case-insensitive match on file names, document types and extracted values. */
+export function sessionMatches(session: ExtractionSession, query: string): boolean {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+  const haystack = [
+    ...session.filenames,
+    ...session.documentTypes,
+    ...session.result.items.flatMap((item) => Object.values(item.data ?? {}).map((value) => String(value ?? ""))),
+  ]
+  return haystack.some((value) => value.toLowerCase().includes(needle))
+}
@@ -0,0 +1,47 @@
+/** Lower-cases and collapses whitespace so layout spacing does not break a match. */
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim()
+
+/**
+ * Spellings a value may have in the PDF. Dates are shown as dd/mm/yyyy but
+ * several documents print them with dashes or dots.
+ */
+export function searchVariants(value: string): string[] {
+  const base = normalize(value)
+  if (!base) return []
+  const variants = new Set([base])
+  if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(base)) {
+    variants.add(base.replace(/\//g, "-"))
+    variants.add(base.replace(/\//g, "."))
+  }
+  return Array.from(variants)
+}
+
+/**
+ * Indexes of the text items that together contain `value`. Items are joined
+ * with single spaces in content order, so values split across several items
+ * (e.g. a name set in two runs) are still found. Returns every occurrence.
+ */
+export function findTextMatches(items: { str: string }[], value: string): number[] {
+  const variants = searchVariants(value)
+  if (variants.length === 0) return []
+
+  let text = ""
+  const spans: { start: number; end: number }[] = []
+  items.forEach((item) => {
+    const str = normalize(item.str)
+    if (text && str) text += " "
+    spans.push({ start: text.length, end: text.length + str.length })
+    text += str
+  })
+
+  const matched = new Set<number>()
+  variants.forEach((variant) => {
+    for (let at = text.indexOf(variant); at !== -1; at = text.indexOf(variant, at + 1)) {
+      const end = at + variant.length
+      spans.forEach((span, index) => {
+        if (span.end > span.start && span.start < end && span.end > at) matched.add(index)
+      })
+    }
+  })
+  return Array.from(matched).sort((a, b) => a - b)
+}
@@ -0,0 +1,4 @@
+// pdfjs-dist ships no typings for its worker entry; only its presence matters to us.
+declare module "pdfjs-dist/build/pdf.worker.mjs" {
+  export const WorkerMessageHandler: unknown
+}
@@ -0,0 +1,81 @@
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api"
+
+type Pdfjs = typeof import("pdfjs-dist")
+
+let pdfjsPromise: Promise<Pdfjs> | null = null
+
+/** Loads pdf.js lazily so it never ends up in the server bundle. */
+export function loadPdfjs(): Promise<Pdfjs> {
+  pdfjsPromise ??= import("pdfjs-dist").then(async (pdfjs) => {
+    if (typeof window === "undefined") {
+      // Already inside a worker: run pdf.js's worker code in-line rather than
+      // spawning a nested worker. pdf.js picks it up from `globalThis.pdfjsWorker`.
+      Object.assign(globalThis, { pdfjsWorker: await import("pdfjs-dist/build/pdf.worker.mjs") })
+    } else if (!pdfjs.GlobalWorkerOptions.workerPort) {
+      // Spawned through `new Worker(new URL(...))` so webpack bundles it as a
+      // worker chunk; emitting the .mjs as a plain asset breaks minification.
+      pdfjs.GlobalWorkerOptions.workerPort = new Worker(
+        new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url),
+        { type: "module" }
+      )
+    }
+    return pdfjs
+  })
+  return pdfjsPromise
+}
+
+const isTextItem = (item: TextItem | TextMarkedContent): item is TextItem => "str" in item
+
+// Items whose baselines are within this many units are treated as one line.
+const LINE_TOLERANCE = 2
+
+/**
+ * Rebuilds reading-order lines from positioned text items, close to what
+ * pdfplumber's `extract_text()` gives the backend extractors.
+ */
+export function itemsToLines(items: (TextItem | TextMarkedContent)[]): string[] {
+  const lines: { y: number; parts: { x: number; end: number; str: string }[] }[] = []
+
+  items.filter(isTextItem).forEach((item) => {
+    if (!item.str.trim()) return
+    const [, , , , x, y] = item.transform
+    let line = lines.find((candidate) => Math.abs(candidate.y - y) <= LINE_TOLERANCE)
+    if (!line) {
+      line = { y, parts: [] }
+      lines.push(line)
+    }
+    line.parts.push({ x, end: x + item.width, str: item.str })
+  })
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(({ parts }) => {
+      parts.sort((a, b) => a.x - b.x)
+      return parts
+        .reduce((text, part, index) => {
+          const gap = index === 0 ? 0 : part.x - parts[index - 1].end
+          return text + (index > 0 && gap > 1 && !text.endsWith(" ") ? " " : "") + part.str
+        }, "")
+        .trim()
+    })
+}
+
+/** Extracts the text layer of every page, pages separated by a newline. */
+export async function readPdfText(source: Blob | ArrayBuffer): Promise<string> {
+  const pdfjs = await loadPdfjs()
+  const data = source instanceof Blob ? await source.arrayBuffer() : source
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise
+
+  try {
+    const pages: string[] = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const text = itemsToLines(content.items).join("\n")
+      if (text) pages.push(text)
+    }
+    return pages.join("\n")
+  } finally {
+    pdf.destroy()
+  }
+}
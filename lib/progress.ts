@@ -0,0 +1,81 @@
+import type { QueueEntry } from "@/lib/upload-queue"
+
+/**
+ * Timing and upload totals for one extraction run. Per-file completion is
+ * read from the queue entries themselves, so it never drifts from them.
+ */
+export interface ExtractionProgress {
+  startedAt: number
+  /** Set once the run is over, which freezes the elapsed time. */
+  finishedAt?: number
+  /** Queue entries taking part in the run. */
+  entryIds: string[]
+  totalBytes: number
+  uploadedBytes: number
+  /** False in local mode, where nothing is uploaded and only completed files count. */
+  uploads: boolean
+}
+
+// Share of the bar given to the upload phase when there is one.
+const UPLOAD_WEIGHT = 0.5
+
+export function createProgress(entries: QueueEntry[], uploads: boolean): ExtractionProgress {
+  return {
+    startedAt: Date.now(),
+    entryIds: entries.map((entry) => entry.id),
+    totalBytes: entries.reduce((sum, entry) => sum + entry.file.size, 0),
+    uploadedBytes: 0,
+    uploads,
+  }
+}
+
+/** Entries of the run that have a final result, successful or not. */
+export function countCompleted(progress: ExtractionProgress, entries: QueueEntry[]): number {
+  const ids = new Set(progress.entryIds)
+  return entries.filter((entry) => ids.has(entry.id) && (entry.status === "extracted" || entry.status === "failed"))
+    .length
+}
+
+/** Overall completion between 0 and 1. */
+export function progressFraction(progress: ExtractionProgress, completedFiles: number): number {
+  const totalFiles = progress.entryIds.length
+  const done = totalFiles ? Math.min(1, completedFiles / totalFiles) : 1
+  if (!progress.uploads) return done
+  const uploaded = progress.totalBytes ? Math.min(1, progress.uploadedBytes / progress.totalBytes) : 1
+  return uploaded * UPLOAD_WEIGHT + done * (1 - UPLOAD_WEIGHT)
+}
+
+/** Linear estimate from the rate so far; null until there is something to extrapolate from. */
+export function estimateRemainingMs(progress: ExtractionProgress, fraction: number, now = Date.now()): number | null {
+  if (fraction >= 1) return 0
+  if (fraction <= 0) return null
+  return ((now - progress.startedAt) / fraction) * (1 - fraction)
+}
+
+/** "42s", "3m 05s", "1h 02m". */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`
+}
+
+/**
+ * How many of `files` have been fully sent, given how much of the multipart
+ * body is out. Parts go out in order, so these are the first N files.
+ */
+export function uploadedFileCount(files: File[], loaded: number, total: number): number {
+  if (total <= 0) return 0
+  if (loaded >= total) return files.length
+  // Scale to file bytes; the body also carries boundaries and form fields.
+  const sent = (loaded / total) * files.reduce((sum, file) => sum + file.size, 0)
+  let cumulative = 0
+  let count = 0
+  for (const file of files) {
+    cumulative += file.size
+    if (cumulative > sent) break
+    count++
+  }
+  return count
+}
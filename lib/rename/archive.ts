@@ -0,0 +1,31 @@
+import type { ResultItem } from "@/lib/api"
+import { createZip, type ZipEntry } from "@/lib/zip"
+import type { RenamePlanEntry } from "./template"
+
+export interface RenamedArchive {
+  zip: Blob
+  /** Records left out because their source PDF is no longer available. */
+  missing: RenamePlanEntry[]
+}
+
+/** Packs the source PDF of every planned record under its new name. */
+export async function buildRenamedZip(
+  plan: readonly RenamePlanEntry[],
+  loadSource: (item: ResultItem) => Promise<Blob | null>
+): Promise<RenamedArchive> {
+  const entries: ZipEntry[] = []
+  const missing: RenamePlanEntry[] = []
+  for (const entry of plan) {
+    const source = await loadSource(entry.item)
+    if (!source) {
+      missing.push(entry)
+      continue
+    }
+    entries.push({
+      name: entry.renamed,
+      data: new Uint8Array(await source.arrayBuffer()),
+      lastModified: source instanceof File ? new Date(source.lastModified) : undefined,
+    })
+  }
+  return { zip: createZip(entries), missing }
+}
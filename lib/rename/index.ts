@@ -0,0 +1,31 @@
+export { buildRenamedZip, type RenamedArchive } from "./archive"
+export {
+  BUILT_IN_PRESETS,
+  duplicatePreset,
+  mergePresets,
+  parsePresetFile,
+  PresetImportError,
+  presetFor,
+  readStoredPresets,
+  removePreset,
+  serializePresets,
+  toggleDefaultPreset,
+  updatePreset,
+  type RenamePreset,
+  type RenamePresets,
+} from "./presets"
+export {
+  DEFAULT_RENAME_TEMPLATE,
+  findTemplateField,
+  MAX_BASENAME_LENGTH,
+  parseTemplate,
+  planRenames,
+  renderTemplate,
+  sanitizeFilename,
+  SPECIAL_TOKENS,
+  splitExtension,
+  TemplateSyntaxError,
+  unknownTemplateNames,
+  type RenamePlanEntry,
+  type TemplatePart,
+} from "./template"
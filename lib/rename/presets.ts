@@ -0,0 +1,120 @@
+import { z } from "zod"
+
+import { DEFAULT_RENAME_TEMPLATE } from "./template"
+
+export interface RenamePreset {
+  id: string
+  name: string
+  template: string
+}
+
+export interface RenamePresets {
+  presets: RenamePreset[]
+  /** Preset id used first for each document type code. */
+  defaults: Record<string, string>
+}
+
+/** The conventions clients ask for most, offered until the user changes the list. */
+export const BUILT_IN_PRESETS: RenamePresets = {
+  presets: [
+    { id: "standard", name: "Type, name, passport, issue date", template: DEFAULT_RENAME_TEMPLATE },
+    { id: "nik-name", name: "NIK - Name", template: "{NIK} - {Name}" },
+    { id: "nomor-keputusan", name: "Nomor Keputusan", template: "{Nomor Keputusan}_{Nama TKA}" },
+    { id: "kode-billing", name: "Kode Billing", template: "{Kode Billing Pembayaran}_{Nama TKA}" },
+  ],
+  defaults: { SKTT: "nik-name", Notifikasi: "nomor-keputusan", DKPTKA: "kode-billing" },
+}
+
+const createPresetId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+/** The preset a document type starts with: its default, else the first one. */
+export function presetFor(store: RenamePresets, documentType: string): RenamePreset | undefined {
+  const id = store.defaults[documentType]
+  return store.presets.find((preset) => preset.id === id) ?? store.presets[0]
+}
+
+export const updatePreset = (store: RenamePresets, id: string, changes: Partial<Omit<RenamePreset, "id">>) => ({
+  ...store,
+  presets: store.presets.map((preset) => (preset.id === id ? { ...preset, ...changes } : preset)),
+})
+
+/** Inserts a copy right after the original and returns it with the new store. */
+export function duplicatePreset(store: RenamePresets, id: string): { store: RenamePresets; preset?: RenamePreset } {
+  const index = store.presets.findIndex((preset) => preset.id === id)
+  if (index === -1) return { store }
+  const original = store.presets[index]
+  const preset = { id: createPresetId(), name: `${original.name} (copy)`, template: original.template }
+  const presets = [...store.presets]
+  presets.splice(index + 1, 0, preset)
+  return { store: { ...store, presets }, preset }
+}
+
+/** Removes a preset and any default pointing at it. The last preset cannot be removed. */
+export function removePreset(store: RenamePresets, id: string): RenamePresets {
+  if (store.presets.length <= 1) return store
+  return {
+    presets: store.presets.filter((preset) => preset.id !== id),
+    defaults: Object.fromEntries(Object.entries(store.defaults).filter(([, presetId]) => presetId !== id)),
+  }
+}
+
+/** Makes `id` the default of `documentType`, or clears the default when it already is. */
+export function toggleDefaultPreset(store: RenamePresets, documentType: string, id: string): RenamePresets {
+  const { [documentType]: current, ...rest } = store.defaults
+  return { ...store, defaults: current === id ? rest : { ...rest, [documentType]: id } }
+}
+
+const presetsSchema = z.object({
+  presets: z
+    .array(z.object({ id: z.string().min(1), name: z.string(), template: z.string() }))
+    .min(1),
+  defaults: z.record(z.string()).default({}),
+})
+
+const presetFileSchema = presetsSchema.extend({ version: z.literal(1) })
+
+// Defaults naming a preset that is not in the list would leave a document type without one.
+function withKnownDefaults({ presets, defaults }: z.infer<typeof presetsSchema>): RenamePresets {
+  const ids = new Set(presets.map((preset) => preset.id))
+  return { presets, defaults: Object.fromEntries(Object.entries(defaults).filter(([, id]) => ids.has(id))) }
+}
+
+/** Checks presets kept between visits; null when they are missing a part or otherwise unusable. */
+export function readStoredPresets(value: unknown): RenamePresets | null {
+  const parsed = presetsSchema.safeParse(value)
+  return parsed.success ? withKnownDefaults(parsed.data) : null
+}
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PresetImportError"
+  }
+}
+
+export function serializePresets(store: RenamePresets): string {
+  return JSON.stringify({ version: 1, ...store }, null, 2)
+}
+
+/** Reads a file written by `serializePresets`. */
+export function parsePresetFile(text: string): RenamePresets {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new PresetImportError("The file is not valid JSON")
+  }
+  const parsed = presetFileSchema.safeParse(json)
+  if (!parsed.success) throw new PresetImportError("The file does not contain rename presets")
+  return withKnownDefaults(parsed.data)
+}
+
+/** Adds imported presets, replacing ones with the same id; imported defaults win. */
+export function mergePresets(store: RenamePresets, imported: RenamePresets): RenamePresets {
+  const byId = new Map(store.presets.map((preset) => [preset.id, preset]))
+  imported.presets.forEach((preset) => byId.set(preset.id, preset))
+  return { presets: Array.from(byId.values()), defaults: { ...store.defaults, ...imported.defaults } }
+}
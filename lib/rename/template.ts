@@ -0,0 +1,245 @@
+import type { ResultItem } from "@/lib/api"
+import { parseDmy } from "@/lib/dates"
+import type { DocumentTypeDefinition, FieldDefinition } from "@/lib/document-types"
+import { getItemValue } from "@/lib/results"
+
+/**
+ * Filename templates are plain text with `{...}` placeholders:
+ *
+ * - `{Name}` is a field, looked up by key or label, case-insensitively.
+ * - `{Passport No|Nomor Paspor}` takes the first alternative with a value,
+ *   so one template can cover document types with different field names.
+ * - `{Date Issue:yyyyMMdd}` formats a date with `yyyy`, `yy`, `MM`, `M`, `dd` and `d`;
+ *   `:upper` and `:lower` change the case of any value.
+ * - `{original}` is the uploaded filename without its extension and `{index}` the row number.
+ * - `{{` and `}}` are literal braces.
+ */
+export const DEFAULT_RENAME_TEMPLATE =
+  "{Jenis Dokumen}_{Name|Nama TKA}_{Passport No|Passport Number|Nomor Paspor}_{Date Issue:yyyyMMdd}"
+
+/** Placeholders that are not fields. */
+export const SPECIAL_TOKENS = ["original", "index"] as const
+
+export type TemplatePart =
+  | { kind: "text"; text: string }
+  | { kind: "value"; names: string[]; format?: string }
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message)
+    this.name = "TemplateSyntaxError"
+  }
+}
+
+export function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = []
+  let text = ""
+  let i = 0
+  while (i < template.length) {
+    const char = template[i]
+    if ((char === "{" || char === "}") && template[i + 1] === char) {
+      text += char
+      i += 2
+      continue
+    }
+    if (char === "}") throw new TemplateSyntaxError(`Unmatched "}" at position ${i + 1}`, i)
+    if (char !== "{") {
+      text += char
+      i++
+      continue
+    }
+    const close = template.indexOf("}", i)
+    if (close === -1) throw new TemplateSyntaxError(`Unclosed "{" at position ${i + 1}`, i)
+    const body = template.slice(i + 1, close)
+    if (body.includes("{")) throw new TemplateSyntaxError(`Unclosed "{" at position ${i + 1}`, i)
+    const colon = body.indexOf(":")
+    const names = (colon === -1 ? body : body.slice(0, colon))
+      .split("|")
+      .map((name) => name.trim())
+      .filter(Boolean)
+    if (names.length === 0) throw new TemplateSyntaxError(`Empty placeholder at position ${i + 1}`, i)
+    const format = colon === -1 ? undefined : body.slice(colon + 1).trim() || undefined
+    if (text) parts.push({ kind: "text", text })
+    text = ""
+    parts.push({ kind: "value", names, format })
+    i = close + 1
+  }
+  if (text) parts.push({ kind: "text", text })
+  return parts
+}
+
+export function findTemplateField(
+  definition: DocumentTypeDefinition,
+  name: string
+): FieldDefinition | undefined {
+  const wanted = name.toLowerCase()
+  return (
+    definition.fields.find((field) => field.key.toLowerCase() === wanted) ??
+    definition.fields.find((field) => field.label.toLowerCase() === wanted)
+  )
+}
+
+const isSpecialToken = (name: string) => (SPECIAL_TOKENS as readonly string[]).includes(name.toLowerCase())
+
+/** Placeholder names that match nothing in any of the given document types. */
+export function unknownTemplateNames(
+  parts: readonly TemplatePart[],
+  definitions: readonly DocumentTypeDefinition[]
+): string[] {
+  const names = parts.flatMap((part) => (part.kind === "value" ? part.names : []))
+  const unknown = names.filter(
+    (name) => !isSpecialToken(name) && !definitions.some((definition) => findTemplateField(definition, name))
+  )
+  return Array.from(new Set(unknown))
+}
+
+// Characters Windows, macOS or common unzip tools refuse in a filename, plus control characters.
+const FORBIDDEN = new Set("<>:\"/\\|?*")
+
+const isForbidden = (char: string) => {
+  const code = char.charCodeAt(0)
+  return code < 0x20 || code === 0x7f || FORBIDDEN.has(char)
+}
+
+const replaceForbidden = (value: string, replacement: string) =>
+  Array.from(value, (char) => (isForbidden(char) ? replacement : char)).join("")
+
+const DATE_TOKENS = /yyyy|yy|MM|M|dd|d/g
+
+function formatValue(value: string, format: string | undefined, field: FieldDefinition | undefined): string {
+  if (!format) return value
+  if (format === "upper") return value.toUpperCase()
+  if (format === "lower") return value.toLowerCase()
+  const date = field?.type === "date" || !field ? parseDmy(value) : null
+  if (!date) return value
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return format.replace(DATE_TOKENS, (token) => {
+    switch (token) {
+      case "yyyy":
+        return String(date.getFullYear())
+      case "yy":
+        return String(date.getFullYear()).slice(-2)
+      case "MM":
+        return pad(date.getMonth() + 1)
+      case "M":
+        return String(date.getMonth() + 1)
+      case "dd":
+        return pad(date.getDate())
+      default:
+        return String(date.getDate())
+    }
+  })
+}
+
+export const splitExtension = (filename: string) => {
+  const dot = filename.lastIndexOf(".")
+  return dot > 0 ? { base: filename.slice(0, dot), extension: filename.slice(dot) } : { base: filename, extension: "" }
+}
+
+function resolveValue(
+  part: Extract<TemplatePart, { kind: "value" }>,
+  item: ResultItem,
+  definition: DocumentTypeDefinition,
+  index: number
+): string {
+  for (const name of part.names) {
+    const special = name.toLowerCase()
+    if (special === "original") return formatValue(splitExtension(item.filename).base, part.format, undefined)
+    if (special === "index") return String(index + 1)
+    const field = findTemplateField(definition, name)
+    const value = field ? getItemValue(item, field.key).trim() : ""
+    if (value) return formatValue(value, part.format, field)
+  }
+  return ""
+}
+
+// In a value, "12/05/2024" or "PT A/B" must not introduce a folder, so slashes become dashes;
+// other forbidden characters become spaces rather than the `_` used for the template text.
+const sanitizeSegment = (value: string) =>
+  replaceForbidden(value.replace(/[/\\]/g, "-"), " ")
+    .replace(/\s+/g, " ")
+    .trim()
+
+const isSeparator = (text: string) => /^[\s_.,-]+$/.test(text)
+
+/**
+ * Renders the template for one record, before sanitizing. `index` is the
+ * record's 0-based position. An empty placeholder takes the separator before
+ * it along, or the one after it when nothing precedes, so "{A}_{B}_{C}"
+ * without B gives "A_C" rather than "A__C".
+ */
+export function renderTemplate(
+  parts: readonly TemplatePart[],
+  item: ResultItem,
+  definition: DocumentTypeDefinition,
+  index: number
+): string {
+  const segments = parts.map((part) =>
+    part.kind === "text"
+      ? { text: part.text, value: false }
+      : { text: sanitizeSegment(resolveValue(part, item, definition, index)), value: true }
+  )
+  const output: typeof segments = []
+  let dropNextSeparator = false
+  for (const segment of segments) {
+    if (!segment.value) {
+      if (!(dropNextSeparator && isSeparator(segment.text))) output.push(segment)
+      dropNextSeparator = false
+    } else if (segment.text) {
+      output.push(segment)
+      dropNextSeparator = false
+    } else if (output.some((previous) => previous.value) && isSeparator(output[output.length - 1]?.text ?? "")) {
+      output.pop()
+    } else {
+      dropNextSeparator = true
+    }
+  }
+  return output.map((segment) => segment.text).join("")
+}
+
+const RESERVED = /^(con|prn|aux|nul|com\d|lpt\d)$/i
+
+/** Leaves room for a collision suffix and the extension within the usual 255-byte limit. */
+export const MAX_BASENAME_LENGTH = 150
+
+/**
+ * Makes a rendered name safe on every common filesystem: forbidden characters
+ * become `_`, whitespace is collapsed, leading and trailing separators are
+ * trimmed, and reserved device names get a leading `_`.
+ */
+export function sanitizeFilename(name: string): string {
+  let safe = replaceForbidden(name.normalize("NFC"), "_")
+    .replace(/\s+/g, " ")
+    .replace(/^[ _.-]+|[ _.-]+$/g, "")
+  if (safe.length > MAX_BASENAME_LENGTH) safe = safe.slice(0, MAX_BASENAME_LENGTH).replace(/[ _.-]+$/, "")
+  return RESERVED.test(safe) ? `_${safe}` : safe
+}
+
+export interface RenamePlanEntry {
+  item: ResultItem
+  original: string
+  renamed: string
+  /** The template produced nothing usable, so the original name was kept. */
+  fallback: boolean
+}
+
+/**
+ * New names for every record, in order, each rendered with the template of its
+ * document type. Names are unique ignoring case, as on Windows and macOS;
+ * later duplicates get `_2`, `_3`, ... before the extension.
+ */
+export function planRenames(
+  records: readonly { item: ResultItem; definition: DocumentTypeDefinition }[],
+  templateFor: (definition: DocumentTypeDefinition) => readonly TemplatePart[]
+): RenamePlanEntry[] {
+  const taken = new Set<string>()
+  return records.map(({ item, definition }, index) => {
+    const { base: originalBase, extension } = splitExtension(item.filename)
+    const rendered = sanitizeFilename(renderTemplate(templateFor(definition), item, definition, index))
+    const base = rendered || sanitizeFilename(originalBase) || "document"
+    let renamed = `${base}${extension || ".pdf"}`
+    for (let n = 2; taken.has(renamed.toLowerCase()); n++) renamed = `${base}_${n}${extension || ".pdf"}`
+    taken.add(renamed.toLowerCase())
+    return { item, original: item.filename, renamed, fallback: !rendered }
+  })
+}
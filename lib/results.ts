@@ -0,0 +1,70 @@
+import type { ExtractedData, ExtractionResult, ResultItem } from "@/lib/api"
+import { getDocumentTypeDefinition, getFieldValue, type DocumentTypeDefinition } from "@/lib/document-types"
+
+export interface ResultGroup {
+  documentType: string
+  definition: DocumentTypeDefinition
+  /** Successful items of this type, in result order. */
+  items: ResultItem[]
+}
+
+/** Splits successful items by document type so each gets its own column set. */
+export function groupByDocumentType(items: ResultItem[], order: string[] = []): ResultGroup[] {
+  const byType = new Map<string, ResultItem[]>()
+  order.forEach((code) => byType.set(code, []))
+  items
+    .filter((item) => item.status === "success" && item.data)
+    .forEach((item) => {
+      const code = item.documentType
+      byType.set(code, [...(byType.get(code) ?? []), item])
+    })
+
+  return Array.from(byType, ([documentType, groupItems]) => ({
+    documentType,
+    definition: getDocumentTypeDefinition(
+      documentType,
+      groupItems.flatMap((item) => (item.data ? [item.data] : []))
+    ),
+    items: groupItems,
+  })).filter((group) => group.items.length > 0)
+}
+
+/** Whether a file is the one a record was read from: by its upload id, or by name for older sessions. */
+export const isSourceOf = (item: ResultItem, source: { id?: string; name: string }) =>
+  item.sourceId ? source.id === item.sourceId : source.name === item.filename
+
+/** The value shown and exported for a field: the user's correction if any, else the extracted one. */
+export function getItemValue(item: ResultItem, key: string): string {
+  return item.edits && key in item.edits ? item.edits[key] : getFieldValue(item.data, key)
+}
+
+export function isEdited(item: ResultItem, key: string): boolean {
+  return !!item.edits && key in item.edits
+}
+
+/** The extracted record with corrections applied, as used by every export. */
+export function getEffectiveRecord(item: ResultItem): ExtractedData | undefined {
+  if (!item.data || !item.edits) return item.data
+  // Edits are plain field values; the document type stays the one the record was read as.
+  return { ...item.data, ...item.edits, "Jenis Dokumen": item.data["Jenis Dokumen"] }
+}
+
+/**
+ * Records a correction on `item`. Setting a field back to its extracted value
+ * drops the edit, so `edits` only ever holds real changes.
+ */
+export function applyEdit(result: ExtractionResult, item: ResultItem, key: string, value: string): ExtractionResult {
+  return {
+    ...result,
+    items: result.items.map((candidate) => {
+      if (candidate !== item) return candidate
+      const { [key]: _previous, ...rest } = candidate.edits ?? {}
+      const edits = value === getFieldValue(candidate.data, key) ? rest : { ...rest, [key]: value }
+      return { ...candidate, edits: Object.keys(edits).length > 0 ? edits : undefined }
+    }),
+  }
+}
+
+export function countEdits(result: ExtractionResult): number {
+  return result.items.reduce((sum, item) => sum + Object.keys(item.edits ?? {}).length, 0)
+}
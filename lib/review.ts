@@ -0,0 +1,52 @@
+import type { ExtractionResult, ResultItem, ReviewStatus } from "@/lib/api"
+
+export const REVIEW_STATUSES: readonly ReviewStatus[] = ["pending", "approved", "needs-fix", "rejected"]
+
+export const REVIEW_LABELS: Record<ReviewStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  "needs-fix": "Needs fix",
+  rejected: "Rejected",
+}
+
+export function getReviewStatus(item: ResultItem): ReviewStatus {
+  return item.review?.status ?? "pending"
+}
+
+/** Records a review decision on `item`; `pending` clears it. */
+export function applyReview(
+  result: ExtractionResult,
+  item: ResultItem,
+  status: ReviewStatus,
+  reviewer: string
+): ExtractionResult {
+  return {
+    ...result,
+    items: result.items.map((candidate) => {
+      if (candidate !== item) return candidate
+      return {
+        ...candidate,
+        review: status === "pending" ? undefined : { status, reviewer, reviewedAt: new Date().toISOString() },
+      }
+    }),
+  }
+}
+
+export function countByReviewStatus(items: readonly ResultItem[]): Record<ReviewStatus, number> {
+  const counts: Record<ReviewStatus, number> = { pending: 0, approved: 0, "needs-fix": 0, rejected: 0 }
+  items.forEach((item) => counts[getReviewStatus(item)]++)
+  return counts
+}
+
+/** The result restricted to approved records, as handed to the HR system. */
+export function onlyApproved(result: ExtractionResult): ExtractionResult {
+  const items = result.items.filter((item) => item.status === "success" && getReviewStatus(item) === "approved")
+  return {
+    ...result,
+    items,
+    documentTypes: result.documentTypes.filter((code) => items.some((item) => item.documentType === code)),
+    totalFiles: items.length,
+    processedFiles: items.length,
+    failedFiles: 0,
+  }
+}
@@ -0,0 +1,171 @@
+import { z } from "zod"
+
+import type { ResultItem } from "@/lib/api"
+import { parseDmy } from "@/lib/dates"
+import type { FieldDefinition } from "@/lib/document-types"
+import { getItemValue } from "@/lib/results"
+import { parsePeriod } from "@/lib/validation"
+
+/** Sort key of the Filename column; every other key is a field key. */
+export const FILENAME_KEY = "__filename"
+
+export interface SortState {
+  key: string
+  direction: "asc" | "desc"
+}
+
+export type ColumnFilter =
+  | { kind: "text"; query: string }
+  | { kind: "date"; from?: string; to?: string }
+  | { kind: "values"; values: string[] }
+
+export type ColumnFilters = Record<string, ColumnFilter>
+
+/** Column layout of one document type's table, remembered across sessions. */
+export interface ColumnPreferences {
+  /** Field keys in display order; fields missing here keep their default position at the end. */
+  order: string[]
+  hidden: string[]
+  /** Shown first and frozen while scrolling sideways. */
+  pinned: string[]
+}
+
+export const DEFAULT_COLUMN_PREFERENCES: ColumnPreferences = { order: [], hidden: [], pinned: [] }
+
+const columnPreferencesSchema = z.object({
+  order: z.array(z.string()).default([]),
+  hidden: z.array(z.string()).default([]),
+  pinned: z.array(z.string()).default([]),
+})
+
+/** Checks one document type's layout kept between visits; null when it is unusable, e.g. edited by hand. */
+export function readStoredColumnPreferences(value: unknown): ColumnPreferences | null {
+  const parsed = columnPreferencesSchema.safeParse(value)
+  return parsed.success ? parsed.data : null
+}
+
+export function filterKindFor(field: FieldDefinition): ColumnFilter["kind"] {
+  if (field.type === "date") return "date"
+  return field.type === "enum" || field.facet ? "values" : "text"
+}
+
+const cellValue = (item: ResultItem, key: string) => (key === FILENAME_KEY ? item.filename : getItemValue(item, key))
+
+// Dates sort chronologically; a period sorts by its start. Unparseable values go last.
+const sortableDate = (field: FieldDefinition | undefined, value: string): number | null => {
+  if (field?.type === "date") return parseDmy(value)?.getTime() ?? null
+  if (field?.type === "period") return parsePeriod(value)?.start.getTime() ?? null
+  return null
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" })
+
+export function compareItems(a: ResultItem, b: ResultItem, sort: SortState, field?: FieldDefinition): number {
+  const left = cellValue(a, sort.key).trim()
+  const right = cellValue(b, sort.key).trim()
+  // Empty cells stay at the bottom whichever way the column is sorted.
+  if (!left || !right) return left ? -1 : right ? 1 : 0
+
+  const sign = sort.direction === "asc" ? 1 : -1
+  if (field?.type === "date" || field?.type === "period") {
+    const [x, y] = [sortableDate(field, left), sortableDate(field, right)]
+    if (x === null || y === null) return x !== null ? -1 : y !== null ? 1 : sign * collator.compare(left, right)
+    return sign * (x - y)
+  }
+  return sign * collator.compare(left, right)
+}
+
+export function isFilterActive(filter: ColumnFilter | undefined): boolean {
+  if (!filter) return false
+  switch (filter.kind) {
+    case "text":
+      return !!filter.query.trim()
+    case "date":
+      return !!(parseDmy(filter.from) || parseDmy(filter.to))
+    case "values":
+      return filter.values.length > 0
+  }
+}
+
+export function matchesFilter(value: string, filter: ColumnFilter): boolean {
+  switch (filter.kind) {
+    case "text":
+      return value.toLowerCase().includes(filter.query.trim().toLowerCase())
+    case "date": {
+      const from = parseDmy(filter.from)
+      const to = parseDmy(filter.to)
+      if (!from && !to) return true
+      const date = parseDmy(value)
+      return !!date && (!from || date >= from) && (!to || date <= to)
+    }
+    case "values":
+      return filter.values.length === 0 || filter.values.includes(value)
+  }
+}
+
+/** Applies the column filters, then the sort, without touching the input array. */
+export function applyTableView(
+  items: readonly ResultItem[],
+  fields: readonly FieldDefinition[],
+  filters: ColumnFilters,
+  sort: SortState | null
+): ResultItem[] {
+  const active = Object.entries(filters).filter(([, filter]) => isFilterActive(filter))
+  const filtered = items.filter((item) => active.every(([key, filter]) => matchesFilter(cellValue(item, key), filter)))
+  if (!sort) return filtered
+  const field = fields.find((candidate) => candidate.key === sort.key)
+  // Array.prototype.sort is stable, so equal values keep their extraction order.
+  return filtered.sort((a, b) => compareItems(a, b, sort, field))
+}
+
+/** Distinct non-empty values of a column, for the value picker of `values` filters. */
+export function distinctValues(items: readonly ResultItem[], key: string): string[] {
+  const values = new Set(items.map((item) => cellValue(item, key).trim()).filter(Boolean))
+  return Array.from(values).sort(collator.compare)
+}
+
+/** The visible fields in display order: pinned ones first, then the saved order, then any new fields. */
+export function resolveColumns(
+  fields: readonly FieldDefinition[],
+  preferences: ColumnPreferences
+): { field: FieldDefinition; pinned: boolean }[] {
+  const rank = (key: string) => {
+    const index = preferences.order.indexOf(key)
+    return index === -1 ? preferences.order.length + fields.findIndex((field) => field.key === key) : index
+  }
+  return fields
+    .filter((field) => !preferences.hidden.includes(field.key))
+    .map((field) => ({ field, pinned: preferences.pinned.includes(field.key) }))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || rank(a.field.key) - rank(b.field.key))
+}
+
+/**
+ * Moves `key` one place earlier or later among all columns, hidden ones included.
+ * Columns never move across the boundary between pinned and unpinned ones.
+ */
+export function moveColumn(
+  fields: readonly FieldDefinition[],
+  preferences: ColumnPreferences,
+  key: string,
+  offset: -1 | 1
+): ColumnPreferences {
+  const columns = resolveColumns(fields, { ...preferences, hidden: [] })
+  const from = columns.findIndex(({ field }) => field.key === key)
+  const to = from + offset
+  if (from === -1 || to < 0 || to >= columns.length || columns[to].pinned !== columns[from].pinned) return preferences
+  const order = columns.map(({ field }) => field.key)
+  order.splice(to, 0, ...order.splice(from, 1))
+  return { ...preferences, order }
+}
+
+const toggle = (keys: string[], key: string) => (keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key])
+
+export const toggleHidden = (preferences: ColumnPreferences, key: string): ColumnPreferences => ({
+  ...preferences,
+  hidden: toggle(preferences.hidden, key),
+})
+
+export const togglePinned = (preferences: ColumnPreferences, key: string): ColumnPreferences => ({
+  ...preferences,
+  pinned: toggle(preferences.pinned, key),
+})
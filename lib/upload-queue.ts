@@ -0,0 +1,142 @@
+import type { ResultItem } from "@/lib/api"
+import type { DetectionResult } from "@/lib/document-types"
+
+/**
+ * `processing`: uploaded and waiting on the server, or being read by a local worker.
+ * `cancelled`: the run was stopped before this file finished; it can be resumed.
+ */
+export type QueueEntryStatus = "queued" | "uploading" | "processing" | "extracted" | "failed" | "cancelled"
+
+export interface QueueEntryOptions {
+  documentType: string
+  /**
+   * Where `documentType` came from. Detection only overrides the page
+   * default, never a type the user picked.
+   */
+  documentTypeSource: "default" | "detected" | "manual"
+}
+
+export interface QueueEntry {
+  id: string
+  file: File
+  /** Hex SHA-256 of the file contents, used together with name and size to spot duplicates. */
+  hash: string
+  status: QueueEntryStatus
+  error?: string
+  options: QueueEntryOptions
+  /** undefined while detection is pending, null when nothing matched. */
+  detection?: DetectionResult | null
+}
+
+export type QueueAction =
+  | { type: "add"; entries: QueueEntry[] }
+  | { type: "remove"; id: string }
+  | { type: "move"; id: string; toIndex: number }
+  | { type: "setStatus"; ids: string[]; status: QueueEntryStatus; error?: string }
+  | { type: "cancelPending"; ids: string[] }
+  | { type: "updateOptions"; ids: string[]; options: Partial<QueueEntryOptions> }
+  | { type: "setDetection"; id: string; detection: DetectionResult | null }
+  | { type: "clear" }
+
+let nextId = 0
+
+export function createEntryId() {
+  nextId = (nextId + 1) % Number.MAX_SAFE_INTEGER
+  return `${Date.now().toString(36)}-${nextId}`
+}
+
+export function entryKey(entry: Pick<QueueEntry, "file" | "hash">) {
+  return `${entry.file.name}|${entry.file.size}|${entry.hash}`
+}
+
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Tags the records of one request with the queue entries they were read from.
+ * The server only echoes filenames, so requests never hold two files of the
+ * same name (see `planChunks`); entries are still claimed once, in order.
+ */
+export function withSourceIds(items: ResultItem[], entries: readonly QueueEntry[]): ResultItem[] {
+  const unclaimed = [...entries]
+  return items.map((item) => {
+    const index = unclaimed.findIndex((entry) => entry.file.name === item.filename)
+    if (index === -1) return item
+    const [entry] = unclaimed.splice(index, 1)
+    return { ...item, sourceId: entry.id }
+  })
+}
+
+export function isPdf(file: File) {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")
+}
+
+/** Not yet finished in the current run. */
+export function isPending(entry: QueueEntry) {
+  return entry.status === "queued" || entry.status === "uploading" || entry.status === "processing"
+}
+
+export function queueReducer(state: QueueEntry[], action: QueueAction): QueueEntry[] {
+  switch (action.type) {
+    case "add": {
+      const seen = new Set(state.map(entryKey))
+      const added = action.entries.filter((entry) => {
+        const key = entryKey(entry)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      return added.length ? [...state, ...added] : state
+    }
+    case "remove":
+      return state.filter((entry) => entry.id !== action.id)
+    case "move": {
+      const from = state.findIndex((entry) => entry.id === action.id)
+      const to = Math.max(0, Math.min(state.length - 1, action.toIndex))
+      if (from === -1 || from === to) return state
+      const next = [...state]
+      const [moved] = next.splice(from, 1)
+      next.splice(to, 0, moved)
+      return next
+    }
+    case "setStatus": {
+      const ids = new Set(action.ids)
+      return state.map((entry) =>
+        ids.has(entry.id) ? { ...entry, status: action.status, error: action.error } : entry
+      )
+    }
+    case "cancelPending": {
+      const ids = new Set(action.ids)
+      return state.map((entry) =>
+        ids.has(entry.id) && isPending(entry) ? { ...entry, status: "cancelled", error: undefined } : entry
+      )
+    }
+    case "updateOptions": {
+      const ids = new Set(action.ids)
+      return state.map((entry) =>
+        ids.has(entry.id) ? { ...entry, options: { ...entry.options, ...action.options } } : entry
+      )
+    }
+    case "setDetection":
+      return state.map((entry) => {
+        if (entry.id !== action.id) return entry
+        const { detection } = action
+        const adopt = detection && detection.confidence !== "low" && entry.options.documentTypeSource === "default"
+        return {
+          ...entry,
+          detection,
+          options: adopt ? { documentType: detection.code, documentTypeSource: "detected" } : entry.options,
+        }
+      })
+    case "clear":
+      return []
+  }
+}
+
+/** True when detection is reasonably sure the file is of another type than the one assigned. */
+export function hasTypeMismatch(entry: QueueEntry) {
+  const { detection } = entry
+  return !!detection && detection.confidence !== "low" && detection.code !== entry.options.documentType
+}
@@ -0,0 +1,178 @@
+import type { ResultItem } from "@/lib/api"
+import { parseDmy } from "@/lib/dates"
+import type { DocumentTypeDefinition, FieldDefinition } from "@/lib/document-types"
+import { getItemValue, type ResultGroup } from "@/lib/results"
+
+export type ValidationSeverity = "error" | "warning"
+export type FieldStatus = "valid" | ValidationSeverity
+
+export interface ValidationIssue {
+  key: string
+  severity: ValidationSeverity
+  message: string
+}
+
+/** Reads another field of the same record, with corrections applied. */
+type FieldReader = (key: string) => string
+
+/** Checks one non-empty value; returns null when it is fine. */
+type FieldRule = (value: string, read: FieldReader) => Omit<ValidationIssue, "key"> | null
+
+export interface RecordValidation {
+  /** Issues per field key; fields without issues are absent. */
+  fields: Record<string, ValidationIssue[]>
+  issues: ValidationIssue[]
+  status: FieldStatus
+}
+
+const error = (message: string) => ({ severity: "error" as const, message })
+const warning = (message: string) => ({ severity: "warning" as const, message })
+
+const startOfToday = () => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+const EMBEDDED_DATE = /\d{1,2}[/-]\d{1,2}[/-]\d{4}/
+
+/** Splits a `period` value such as "01/01/2024 - 31/12/2024". */
+export function parsePeriod(value: string): { start: Date; end: Date } | null {
+  const parts = value.split(/\s+(?:-|s\.?d\.?|sampai dengan)\s+/i)
+  if (parts.length !== 2) return null
+  const [start, end] = parts.map(parseDmy)
+  return start && end ? { start, end } : null
+}
+
+// Rules implied by a field's data type, applied to every document type.
+const TYPE_RULES: Partial<Record<FieldDefinition["type"], FieldRule>> = {
+  date: (value) => (parseDmy(value) ? null : error("Not a real calendar date (dd/mm/yyyy)")),
+  period: (value) => {
+    const period = parsePeriod(value)
+    if (!period) return error("Expected two real dates, e.g. 01/01/2024 - 31/12/2024")
+    return period.start <= period.end ? null : error("Start date is after the end date")
+  },
+  email: (value) => (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : warning("Does not look like an email address")),
+  phone: (value) =>
+    /^\+?[\d\s()-]{6,20}$/.test(value) ? null : warning("Does not look like a phone number"),
+}
+
+const nik: FieldRule = (value) => (/^\d{16}$/.test(value) ? null : error("NIK must be exactly 16 digits"))
+
+const passportNumber: FieldRule = (value) =>
+  /^[A-Z0-9]{6,9}$/i.test(value.replace(/\s/g, "")) ? null : warning("Passport numbers are 6 to 9 letters and digits")
+
+const pastDate: FieldRule = (value) => {
+  const date = parseDmy(value)
+  return date && date > startOfToday() ? error("Date is in the future") : null
+}
+
+const birthDate: FieldRule = (value, read) => {
+  const date = parseDmy(value)
+  return date && date.getFullYear() < 1900 ? warning("Unusually early date of birth") : pastDate(value, read)
+}
+
+/** "Place, dd/mm/yyyy" fields: the date part, when present, must be real. */
+const embeddedBirthDate: FieldRule = (value, read) => {
+  const match = value.match(EMBEDDED_DATE)
+  if (!match) return warning("No date of birth found")
+  return parseDmy(match[0]) ? birthDate(match[0], read) : error(`${match[0]} is not a real calendar date`)
+}
+
+const after = (otherKey: string, label: string): FieldRule => (value, read) => {
+  const date = parseDmy(value)
+  const other = parseDmy(read(otherKey))
+  return date && other && date <= other ? error(`Must be after ${label}`) : null
+}
+
+const notExpired =
+  (what: string): FieldRule =>
+  (value) => {
+    const date = parseDmy(value)
+    return date && date < startOfToday() ? warning(`${what} has expired`) : null
+  }
+
+const PASSPORT_EXPIRY = [after("Date of Birth", "Date of Birth"), notExpired("Passport")]
+
+const STAY_PERMIT_RULES: Record<string, FieldRule[]> = {
+  "Passport Number": [passportNumber],
+  "Place & Date of Birth": [embeddedBirthDate],
+  "Passport Expiry": [notExpired("Passport")],
+  "Stay Permit Expiry": [after("Date Issue", "Date Issue")],
+  "Date Issue": [pastDate],
+}
+
+/** Extra rules per document type and field key, on top of the data-type rules. */
+const FIELD_RULES: Record<string, Record<string, FieldRule[]>> = {
+  SKTT: {
+    NIK: [nik],
+    "Date of Birth": [birthDate],
+    "Passport Expiry": PASSPORT_EXPIRY,
+    "Date Issue": [pastDate],
+  },
+  EVLN: {
+    "Passport No": [passportNumber],
+    "Date of Birth": [birthDate],
+    "Passport Expiry": PASSPORT_EXPIRY,
+    "Date Issue": [pastDate],
+  },
+  ITAS: STAY_PERMIT_RULES,
+  ITK: STAY_PERMIT_RULES,
+  Notifikasi: {
+    "Nomor Paspor": [passportNumber],
+    "Tempat/Tanggal Lahir": [embeddedBirthDate],
+    "Date Issue": [pastDate],
+  },
+  DKPTKA: {
+    "Nomor Paspor": [passportNumber],
+    "Tempat/Tanggal Lahir": [embeddedBirthDate],
+  },
+}
+
+/** The most severe status among `issues`. */
+export function fieldStatus(issues: readonly ValidationIssue[] = []): FieldStatus {
+  return issues.some((issue) => issue.severity === "error") ? "error" : issues.length > 0 ? "warning" : "valid"
+}
+
+/** Checks every field of `item` (corrections applied) against the rules for its type. */
+export function validateRecord(definition: DocumentTypeDefinition, item: ResultItem): RecordValidation {
+  const read: FieldReader = (key) => getItemValue(item, key).trim()
+  const typeRules = FIELD_RULES[definition.code] ?? {}
+  const fields: Record<string, ValidationIssue[]> = {}
+
+  definition.fields.forEach((field) => {
+    const value = read(field.key)
+    const found: ValidationIssue[] = []
+    if (!value) {
+      if (field.required) found.push({ key: field.key, ...error("Required field is empty") })
+    } else {
+      const rules = [TYPE_RULES[field.type], ...(typeRules[field.key] ?? [])]
+      rules.forEach((rule) => {
+        const issue = rule?.(value, read)
+        if (issue) found.push({ key: field.key, ...issue })
+      })
+    }
+    if (found.length > 0) fields[field.key] = found
+  })
+
+  const issues = Object.values(fields).flat()
+  return { fields, issues, status: fieldStatus(issues) }
+}
+
+export interface ValidationSummary {
+  /** Records with at least one error or warning. */
+  needsReview: number
+  errors: number
+  warnings: number
+}
+
+export function summarizeValidation(groups: readonly ResultGroup[]): ValidationSummary {
+  const summary: ValidationSummary = { needsReview: 0, errors: 0, warnings: 0 }
+  groups.forEach((group) =>
+    group.items.forEach((item) => {
+      const { issues } = validateRecord(group.definition, item)
+      if (issues.length > 0) summary.needsReview++
+      issues.forEach((issue) => (issue.severity === "error" ? summary.errors++ : summary.warnings++))
+    })
+  )
+  return summary
+}
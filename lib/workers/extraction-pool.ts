@@ -0,0 +1,25 @@
+import type { DetectionResult, ExtractedRecord } from "@/lib/document-types"
+import { createWorkerPool, type RunOptions, type WorkerPool } from "./pool"
+import type { ExtractionTask, ExtractionTaskResult } from "./extraction.worker"
+
+let pool: WorkerPool<ExtractionTask, ExtractionTaskResult> | null = null
+
+/** Shared pool for local extraction and type detection; workers are only spawned once a task is queued. */
+export function getExtractionPool(): WorkerPool<ExtractionTask, ExtractionTaskResult> {
+  pool ??= createWorkerPool<ExtractionTask, ExtractionTaskResult>(
+    () => new Worker(new URL("./extraction.worker.ts", import.meta.url))
+  )
+  return pool
+}
+
+export async function extractInPool(file: File, documentType: string, options?: RunOptions): Promise<ExtractedRecord> {
+  const result = await getExtractionPool().run({ kind: "record", file, documentType }, options)
+  if (result.kind !== "record") throw new Error("Worker answered a record task with a detection")
+  return result.record
+}
+
+export async function detectInPool(file: File, options?: RunOptions): Promise<DetectionResult | null> {
+  const result = await getExtractionPool().run({ kind: "detect", file }, options)
+  if (result.kind !== "detect") throw new Error("Worker answered a detection task with a record")
+  return result.detection
+}
@@ -0,0 +1,19 @@
+import { detectDocumentType, type DetectionResult, type ExtractedRecord } from "@/lib/document-types"
+import { extractRecord } from "@/lib/extractors/registry"
+import { readPdfText } from "@/lib/pdf/text"
+import { handleTasks } from "./protocol"
+
+/** `record` reads a record of the given type; `detect` guesses the type from the text layer. */
+export type ExtractionTask = { kind: "record"; file: File; documentType: string } | { kind: "detect"; file: File }
+
+// Only the outcome travels back; the text layer of a large PDF stays in the worker.
+export type ExtractionTaskResult =
+  | { kind: "record"; record: ExtractedRecord }
+  | { kind: "detect"; detection: DetectionResult | null }
+
+handleTasks<ExtractionTask, ExtractionTaskResult>(async (task) => {
+  const text = await readPdfText(task.file)
+  return task.kind === "record"
+    ? { kind: "record", record: extractRecord(task.documentType, text) }
+    : { kind: "detect", detection: detectDocumentType(text) }
+})
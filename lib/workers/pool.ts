@@ -0,0 +1,146 @@
+import type { TaskRequest, TaskResponse } from "./protocol"
+
+export interface WorkerPoolOptions {
+  /** Maximum number of workers running at once. Defaults to `defaultConcurrency()`. */
+  concurrency?: number
+}
+
+export interface RunOptions {
+  /** Aborting rejects the task; a running task has its worker terminated. */
+  signal?: AbortSignal
+}
+
+interface Job<TTask, TResult> {
+  id: number
+  task: TTask
+  signal?: AbortSignal
+  resolve: (result: TResult) => void
+  reject: (reason: unknown) => void
+  cleanup: () => void
+}
+
+interface Slot {
+  worker: Worker
+  jobId: number | null
+}
+
+/** Leaves one core for the UI thread and caps the pool so memory stays bounded on big machines. */
+export function defaultConcurrency(): number {
+  const cores = typeof navigator === "undefined" ? 2 : navigator.hardwareConcurrency || 2
+  return Math.min(4, Math.max(1, cores - 1))
+}
+
+const abortReason = (signal: AbortSignal) => signal.reason ?? new DOMException("The task was aborted", "AbortError")
+
+/**
+ * Runs tasks on a bounded set of lazily spawned workers. Tasks are queued in
+ * submission order; results come back through each task's own promise as
+ * soon as it finishes, so callers can stream them into the UI.
+ */
+export function createWorkerPool<TTask, TResult>(
+  createWorker: () => Worker,
+  { concurrency = defaultConcurrency() }: WorkerPoolOptions = {}
+) {
+  const slots: Slot[] = []
+  const queue: Job<TTask, TResult>[] = []
+  const running = new Map<number, { job: Job<TTask, TResult>; slot: Slot }>()
+  let nextId = 0
+  let terminated = false
+
+  const spawn = (): Slot => {
+    const slot: Slot = { worker: createWorker(), jobId: null }
+    slot.worker.addEventListener("message", (event: MessageEvent<TaskResponse<TResult>>) => {
+      const entry = running.get(event.data.id)
+      if (!entry) return
+      finish(entry.job, slot)
+      if (event.data.ok) entry.job.resolve(event.data.result)
+      else entry.job.reject(new Error(event.data.error))
+    })
+    // An uncaught error leaves the worker in an unknown state, so it is replaced.
+    slot.worker.addEventListener("error", (event) => {
+      event.preventDefault()
+      const entry = slot.jobId === null ? undefined : running.get(slot.jobId)
+      retire(slot)
+      entry?.job.reject(new Error(event.message || "Worker crashed"))
+      pump()
+    })
+    slots.push(slot)
+    return slot
+  }
+
+  const retire = (slot: Slot) => {
+    if (slot.jobId !== null) {
+      running.get(slot.jobId)?.job.cleanup()
+      running.delete(slot.jobId)
+    }
+    slot.worker.terminate()
+    slots.splice(slots.indexOf(slot), 1)
+  }
+
+  const finish = (job: Job<TTask, TResult>, slot: Slot) => {
+    job.cleanup()
+    running.delete(job.id)
+    slot.jobId = null
+    pump()
+  }
+
+  const pump = () => {
+    while (!terminated && queue.length > 0) {
+      const slot = slots.find((candidate) => candidate.jobId === null) ?? (slots.length < concurrency ? spawn() : null)
+      if (!slot) return
+      const job = queue.shift()!
+      slot.jobId = job.id
+      running.set(job.id, { job, slot })
+      const request: TaskRequest<TTask> = { id: job.id, task: job.task }
+      slot.worker.postMessage(request)
+    }
+  }
+
+  const cancel = (job: Job<TTask, TResult>) => {
+    const queued = queue.indexOf(job)
+    if (queued >= 0) {
+      queue.splice(queued, 1)
+      job.cleanup()
+    } else {
+      // There is no way to interrupt a worker mid-task other than killing it.
+      const entry = running.get(job.id)
+      if (entry) retire(entry.slot)
+    }
+    job.reject(abortReason(job.signal!))
+    pump()
+  }
+
+  return {
+    concurrency,
+
+    run(task: TTask, { signal }: RunOptions = {}): Promise<TResult> {
+      if (terminated) return Promise.reject(new Error("Worker pool has been terminated"))
+      if (signal?.aborted) return Promise.reject(abortReason(signal))
+
+      return new Promise<TResult>((resolve, reject) => {
+        const job: Job<TTask, TResult> = { id: nextId++, task, signal, resolve, reject, cleanup: () => {} }
+        if (signal) {
+          const onAbort = () => cancel(job)
+          signal.addEventListener("abort", onAbort, { once: true })
+          job.cleanup = () => signal.removeEventListener("abort", onAbort)
+        }
+        queue.push(job)
+        pump()
+      })
+    },
+
+    /** Stops every worker and rejects all pending tasks. */
+    terminate() {
+      terminated = true
+      const error = new Error("Worker pool has been terminated")
+      queue.splice(0).forEach((job) => {
+        job.cleanup()
+        job.reject(error)
+      })
+      Array.from(running.values()).forEach(({ job }) => job.reject(error))
+      slots.slice().forEach(retire)
+    },
+  }
+}
+
+export type WorkerPool<TTask, TResult> = ReturnType<typeof createWorkerPool<TTask, TResult>>
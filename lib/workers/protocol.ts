@@ -0,0 +1,21 @@
+/** Messages exchanged between `createWorkerPool` and a worker set up with `handleTasks`. */
+export interface TaskRequest<TTask> {
+  id: number
+  task: TTask
+}
+
+export type TaskResponse<TResult> = { id: number; ok: true; result: TResult } | { id: number; ok: false; error: string }
+
+/** Worker side: answers every task request with the handler's result or error message. */
+export function handleTasks<TTask, TResult>(handler: (task: TTask) => Promise<TResult> | TResult) {
+  self.addEventListener("message", async (event: MessageEvent<TaskRequest<TTask>>) => {
+    const { id, task } = event.data
+    let response: TaskResponse<TResult>
+    try {
+      response = { id, ok: true, result: await handler(task) }
+    } catch (err) {
+      response = { id, ok: false, error: err instanceof Error ? err.message : String(err) }
+    }
+    self.postMessage(response)
+  })
+}
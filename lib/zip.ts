@@ -0,0 +1,123 @@
+export interface ZipEntry {
+  /** Path inside the archive, `/`-separated. */
+  name: string
+  data: Uint8Array | string
+  lastModified?: Date
+}
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable() {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time as stored in ZIP headers; 2-second resolution, local time.
+function dosDateTime(date: Date) {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// General purpose flag bit 11: names are UTF-8.
+const UTF8_FLAG = 0x0800
+
+// Without ZIP64 records, counts are 16-bit and sizes and offsets 32-bit; the
+// all-ones values are reserved as markers for ZIP64 fields.
+const MAX_ENTRIES = 0xffff
+const MAX_SIZE = 0xfffffffe
+
+/** Thrown when an archive would need ZIP64 records, which `createZip` does not write. */
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ZipLimitError"
+  }
+}
+
+const formatBytes = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GB`
+
+/**
+ * Builds a ZIP archive with every entry stored uncompressed. PDFs and our
+ * XML parts are small or already compressed, so deflate would gain little
+ * and stored entries need no compression library. Throws a `ZipLimitError`
+ * past 65,535 entries or 4 GB, where ZIP64 records would be needed.
+ */
+export function createZip(entries: readonly ZipEntry[]): Blob {
+  if (entries.length > MAX_ENTRIES) {
+    throw new ZipLimitError(`A ZIP holds at most ${MAX_ENTRIES} files; this one would have ${entries.length}`)
+  }
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data
+    if (offset + 30 + name.length + data.length > MAX_SIZE) {
+      throw new ZipLimitError(`The ZIP would exceed ${formatBytes(MAX_SIZE)} at "${entry.name}"; download fewer files at once`)
+    }
+    const crc = crc32(data)
+    const { time, date } = dosDateTime(entry.lastModified ?? new Date())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed to extract
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, 0, true) // method: stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true) // version made by
+    header.setUint16(6, 20, true)
+    header.setUint16(8, UTF8_FLAG, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, data.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true) // extra, comment, disk, attributes stay 0
+
+    parts.push(new Uint8Array(local.buffer), name, data)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + data.length
+  })
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  if (offset + centralSize > MAX_SIZE) {
+    throw new ZipLimitError(`The ZIP would exceed ${formatBytes(MAX_SIZE)}; download fewer files at once`)
+  }
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: "application/zip" })
+}